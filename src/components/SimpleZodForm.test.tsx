@@ -0,0 +1,89 @@
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { z } from 'zod';
+import { SimpleZodForm } from './SimpleZodForm';
+import { ZodForm } from './ZodForm';
+import { createSimpleFormMappers, DEFAULT_NAME_RULES } from '../utils/field-heuristics';
+
+describe('SimpleZodForm', () => {
+  const schema = z.object({
+    name: z.string().min(1, 'Name is required'),
+    bio: z.string().optional(),
+    rating: z.number().min(1).max(5),
+    role: z.enum(['admin', 'user']),
+  });
+
+  it('should render the same form as ZodForm with the simple form mappers', () => {
+    const simple = render(<SimpleZodForm schema={schema} onSubmit={jest.fn()} />);
+    const simpleHtml = simple.container.innerHTML;
+    simple.unmount();
+
+    const core = render(
+      <ZodForm
+        schema={schema}
+        onSubmit={jest.fn()}
+        fieldMappers={createSimpleFormMappers(DEFAULT_NAME_RULES)}
+      />
+    );
+
+    expect(core.container.innerHTML).toBe(simpleHtml);
+  });
+
+  it('should apply name rules on top of the parser', () => {
+    const { container } = render(<SimpleZodForm schema={schema} onSubmit={jest.fn()} />);
+
+    expect(screen.getByLabelText('Name')).toHaveAttribute('type', 'text');
+    expect(container.querySelector('textarea[name="bio"]')).toHaveAttribute('rows', '6');
+    expect(screen.getByRole('button', { name: 'Rate 5 stars' })).toBeInTheDocument();
+    expect(container.querySelectorAll('input[type="radio"][name="role"]')).toHaveLength(2);
+  });
+
+  it('should label fields from their names with "Enter" placeholders', () => {
+    render(<SimpleZodForm schema={schema} onSubmit={jest.fn()} />);
+
+    expect(screen.getByLabelText('Name')).toHaveAttribute('placeholder', 'Enter name');
+    expect(screen.getByLabelText('Bio')).toHaveAttribute('placeholder', 'Enter bio');
+    expect(screen.getByText('Role')).toBeInTheDocument();
+  });
+
+  it('should rate numbers from 1 to 5 with stars whatever their name', () => {
+    const { container } = render(
+      <SimpleZodForm
+        schema={z.object({ score: z.number().min(1).max(5), count: z.number().min(1).max(9) })}
+        onSubmit={jest.fn()}
+      />
+    );
+
+    expect(screen.getByRole('button', { name: 'Rate 5 stars' })).toBeInTheDocument();
+    expect(container.querySelector('input[name="count"]')).toHaveAttribute('type', 'range');
+  });
+
+  it('should replace the default rules with custom name rules', () => {
+    const { container } = render(
+      <SimpleZodForm
+        schema={schema}
+        onSubmit={jest.fn()}
+        nameRules={[{ names: ['name'], type: 'textarea' }]}
+      />
+    );
+
+    expect(container.querySelector('textarea[name="name"]')).toBeInTheDocument();
+    expect(container.querySelector('input[name="bio"]')).toHaveAttribute('type', 'text');
+  });
+
+  it('should validate and submit through ZodForm', async () => {
+    const onSubmit = jest.fn();
+    const { container } = render(<SimpleZodForm schema={schema} onSubmit={onSubmit} />);
+
+    fireEvent.submit(container.querySelector('form')!);
+    expect(await screen.findByText('Name is required')).toBeInTheDocument();
+
+    fireEvent.change(screen.getByLabelText('Name'), { target: { value: 'Ada' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Rate 4 stars' }));
+    fireEvent.click(screen.getByLabelText('User'));
+    fireEvent.submit(container.querySelector('form')!);
+
+    await waitFor(() => expect(onSubmit).toHaveBeenCalled());
+    expect(onSubmit.mock.calls[0][0]).toMatchObject({ name: 'Ada', rating: 4, role: 'user' });
+  });
+});
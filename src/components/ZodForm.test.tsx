@@ -0,0 +1,1286 @@
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { z } from 'zod';
+import { z as z4 } from 'zod/v4';
+import { ZodForm } from './ZodForm';
+import { CustomFieldProps } from '../types';
+import { withField } from '../utils/field-metadata';
+import { fromJsonSchema } from '../utils/json-schema';
+import { fromFormSpec, toFormSpec } from '../utils/form-spec';
+import { createZodFormAction, initialActionState } from '../utils/form-action';
+
+describe('ZodForm', () => {
+  describe('nested objects', () => {
+    const schema = z.object({
+      name: z.string().min(1, 'Name is required'),
+      address: z.object({
+        street: z.string().min(1, 'Street is required'),
+        geo: z.object({
+          lat: z.number(),
+          lng: z.number(),
+        }),
+      }),
+    });
+
+    it('should render fields at every depth with their dotted names', () => {
+      const { container } = render(<ZodForm schema={schema} onSubmit={jest.fn()} />);
+
+      expect(screen.getByText('address')).toBeInTheDocument();
+      expect(screen.getByText('geo')).toBeInTheDocument();
+      expect(container.querySelector('input[name="name"]')).toBeInTheDocument();
+      expect(container.querySelector('input[name="address.street"]')).toBeInTheDocument();
+      expect(container.querySelector('input[name="address.geo.lat"]')).toHaveAttribute(
+        'type',
+        'number'
+      );
+    });
+
+    it('should show validation errors on nested fields', async () => {
+      const onSubmit = jest.fn();
+      const { container } = render(<ZodForm schema={schema} onSubmit={onSubmit} />);
+
+      fireEvent.submit(container.querySelector('form')!);
+
+      await waitFor(() => {
+        expect(screen.getByText('Street is required')).toBeInTheDocument();
+      });
+      expect(onSubmit).not.toHaveBeenCalled();
+    });
+
+    it('should apply fieldOptions keyed by dotted path', () => {
+      render(
+        <ZodForm
+          schema={schema}
+          onSubmit={jest.fn()}
+          fieldOptions={{ 'address.street': { placeholder: 'Street address' } }}
+        />
+      );
+
+      expect(screen.getByPlaceholderText('Street address')).toBeInTheDocument();
+    });
+  });
+
+  describe('arrays', () => {
+    it('should render primitive items with their element input type', () => {
+      const schema = z.object({ scores: z.array(z.number()) });
+      const { container } = render(
+        <ZodForm schema={schema} onSubmit={jest.fn()} defaultValues={{ scores: [1, 2] }} />
+      );
+
+      expect(container.querySelector('input[name="scores.0"]')).toHaveAttribute('type', 'number');
+      expect(container.querySelector('input[name="scores.1"]')).toHaveAttribute('type', 'number');
+    });
+
+    it('should seed new object items from the element schema defaults', () => {
+      const schema = z.object({
+        contacts: z.array(
+          z.object({
+            name: z.string(),
+            role: z.string().default('member'),
+          })
+        ),
+      });
+      const { container } = render(<ZodForm schema={schema} onSubmit={jest.fn()} />);
+
+      fireEvent.click(screen.getByRole('button', { name: 'Add Item' }));
+
+      expect(container.querySelector('input[name="contacts.0.name"]')).toHaveValue('');
+      expect(container.querySelector('input[name="contacts.0.role"]')).toHaveValue('member');
+    });
+
+    it('should render nested arrays', () => {
+      const schema = z.object({ matrix: z.array(z.array(z.string())) });
+      const { container } = render(
+        <ZodForm schema={schema} onSubmit={jest.fn()} defaultValues={{ matrix: [['a', 'b']] }} />
+      );
+
+      expect(container.querySelector('input[name="matrix.0.1"]')).toHaveValue('b');
+    });
+  });
+
+  describe('discriminated unions', () => {
+    const schema = z.object({
+      contact: z.discriminatedUnion('channel', [
+        z.object({ channel: z.literal('email'), address: z.string().email('Invalid email') }),
+        z.object({ channel: z.literal('phone'), number: z.string(), extension: z.string() }),
+      ]),
+    });
+
+    it('should render the chosen variant fields only', () => {
+      const { container } = render(<ZodForm schema={schema} onSubmit={jest.fn()} />);
+
+      // Defaults start on the first variant
+      expect(screen.getByLabelText('Channel')).toHaveValue('email');
+      expect(container.querySelector('input[name="contact.address"]')).toBeInTheDocument();
+      expect(container.querySelector('input[name="contact.number"]')).not.toBeInTheDocument();
+
+      fireEvent.change(screen.getByLabelText('Channel'), { target: { value: 'phone' } });
+
+      expect(container.querySelector('input[name="contact.number"]')).toBeInTheDocument();
+      expect(container.querySelector('input[name="contact.address"]')).not.toBeInTheDocument();
+    });
+
+    it('should label the variant selector like other fields', () => {
+      const labelled = z.object({
+        contact: z.discriminatedUnion('channel', [
+          z.object({
+            channel: withField(z.literal('email'), { label: 'Contact by' }),
+            address: z.string(),
+          }),
+          z.object({ channel: z.literal('phone'), number: z.string() }),
+        ]),
+      });
+
+      const { unmount } = render(<ZodForm schema={labelled} onSubmit={jest.fn()} />);
+      expect(screen.getByLabelText('Contact by')).toHaveValue('email');
+      unmount();
+
+      render(
+        <ZodForm
+          schema={labelled}
+          fieldOptions={{ 'contact.channel': { label: 'Preferred channel' } }}
+          onSubmit={jest.fn()}
+        />
+      );
+      expect(screen.getByLabelText('Preferred channel')).toHaveValue('email');
+    });
+
+    it('should clear values of the previous variant when switching', async () => {
+      const onSubmit = jest.fn();
+      const onChange = jest.fn();
+      const { container } = render(
+        <ZodForm
+          schema={schema}
+          onSubmit={onSubmit}
+          onChange={onChange}
+          defaultValues={{ contact: { channel: 'phone', number: '555', extension: '1' } }}
+        />
+      );
+
+      fireEvent.change(screen.getByLabelText('Channel'), { target: { value: 'email' } });
+
+      expect(onChange).toHaveBeenLastCalledWith({ contact: { channel: 'email', address: '' } });
+
+      fireEvent.change(container.querySelector('input[name="contact.address"]')!, {
+        target: { value: 'a@b.co' },
+      });
+      fireEvent.submit(container.querySelector('form')!);
+
+      await waitFor(() => expect(onSubmit).toHaveBeenCalled());
+      expect(onSubmit.mock.calls[0][0]).toEqual({
+        contact: { channel: 'email', address: 'a@b.co' },
+      });
+    });
+
+    it('should show errors on variant-specific paths', async () => {
+      const { container } = render(
+        <ZodForm
+          schema={schema}
+          onSubmit={jest.fn()}
+          defaultValues={{ contact: { channel: 'email', address: 'nope' } }}
+        />
+      );
+
+      fireEvent.submit(container.querySelector('form')!);
+
+      await waitFor(() => expect(screen.getByText('Invalid email')).toBeInTheDocument());
+    });
+  });
+
+  describe('unions', () => {
+    const schema = z.object({
+      price: z.union([
+        z.string().describe('Text'),
+        z.object({ min: z.string(), max: z.string() }).describe('Range'),
+      ]),
+    });
+
+    it('should render the member that matches the current value', () => {
+      const { container } = render(
+        <ZodForm
+          schema={schema}
+          onSubmit={jest.fn()}
+          defaultValues={{ price: { min: '1', max: '2' } }}
+        />
+      );
+
+      expect(screen.getByRole('radio', { name: 'Range' })).toHaveAttribute('aria-checked', 'true');
+      expect(container.querySelector('input[name="price.min"]')).toHaveValue('1');
+    });
+
+    it('should switch members and submit the chosen member value', async () => {
+      const onSubmit = jest.fn();
+      const { container } = render(
+        <ZodForm schema={schema} onSubmit={onSubmit} defaultValues={{ price: 'free' }} />
+      );
+
+      fireEvent.click(screen.getByRole('radio', { name: 'Range' }));
+      fireEvent.change(container.querySelector('input[name="price.min"]')!, {
+        target: { value: '5' },
+      });
+      fireEvent.change(container.querySelector('input[name="price.max"]')!, {
+        target: { value: '9' },
+      });
+      fireEvent.submit(container.querySelector('form')!);
+
+      await waitFor(() => expect(onSubmit).toHaveBeenCalled());
+      expect(onSubmit.mock.calls[0][0]).toEqual({ price: { min: '5', max: '9' } });
+    });
+  });
+
+  describe('option values', () => {
+    enum Priority {
+      Low = 1,
+      High = 2,
+    }
+    enum Size {
+      XS = 1,
+      S,
+      M,
+      L,
+      XL,
+    }
+
+    it('should submit numeric enum members chosen from radios and selects', async () => {
+      const onSubmit = jest.fn();
+      const { container } = render(
+        <ZodForm
+          schema={z.object({ priority: z.nativeEnum(Priority), size: z.nativeEnum(Size) })}
+          fieldOptions={{ priority: { type: 'radio' } }}
+          onSubmit={onSubmit}
+        />
+      );
+
+      fireEvent.click(screen.getByLabelText(String(Priority.High)));
+      fireEvent.change(container.querySelector('select[name="size"]')!, {
+        target: { value: '4' },
+      });
+
+      expect(screen.getByLabelText(String(Priority.High))).toBeChecked();
+
+      fireEvent.submit(container.querySelector('form')!);
+
+      await waitFor(() => expect(onSubmit).toHaveBeenCalled());
+      expect(onSubmit.mock.calls[0][0]).toEqual({ priority: Priority.High, size: Size.L });
+    });
+
+    it('should submit numeric literals chosen from a union of literals', async () => {
+      const onSubmit = jest.fn();
+      const { container } = render(
+        <ZodForm
+          schema={z.object({ rating: z.union([z.literal(1), z.literal(2)]) })}
+          onSubmit={onSubmit}
+        />
+      );
+
+      fireEvent.click(screen.getByLabelText('2'));
+      fireEvent.submit(container.querySelector('form')!);
+
+      await waitFor(() => expect(onSubmit).toHaveBeenCalled());
+      expect(onSubmit.mock.calls[0][0]).toEqual({ rating: 2 });
+    });
+  });
+
+  describe('records', () => {
+    const schema = z.object({
+      limits: z.record(z.string().regex(/^[a-z]+$/, 'Lowercase keys only'), z.number()),
+    });
+
+    it('should add entries and render values with the value field type', () => {
+      const { container } = render(<ZodForm schema={schema} onSubmit={jest.fn()} />);
+
+      fireEvent.click(screen.getByRole('button', { name: 'Add Entry' }));
+      fireEvent.change(screen.getByLabelText('limits key 1'), { target: { value: 'cpu' } });
+
+      expect(container.querySelector('input[name="limits.cpu"]')).toHaveAttribute('type', 'number');
+    });
+
+    it('should rename and remove entries', async () => {
+      const onChange = jest.fn();
+      render(
+        <ZodForm
+          schema={schema}
+          onSubmit={jest.fn()}
+          onChange={onChange}
+          defaultValues={{ limits: { cpu: 2, ram: 8 } }}
+        />
+      );
+
+      fireEvent.change(screen.getByLabelText('limits key 1'), { target: { value: 'cores' } });
+      expect(onChange).toHaveBeenLastCalledWith({ limits: { cores: 2, ram: 8 } });
+
+      fireEvent.click(screen.getAllByRole('button', { name: 'Remove' })[1]);
+      expect(onChange).toHaveBeenLastCalledWith({ limits: { cores: 2 } });
+    });
+
+    it('should flag duplicate keys and keys rejected by the key schema', () => {
+      render(
+        <ZodForm schema={schema} onSubmit={jest.fn()} defaultValues={{ limits: { cpu: 2 } }} />
+      );
+
+      fireEvent.click(screen.getByRole('button', { name: 'Add Entry' }));
+      fireEvent.change(screen.getByLabelText('limits key 2'), { target: { value: 'cpu' } });
+      expect(screen.getByText('Duplicate key')).toBeInTheDocument();
+
+      fireEvent.change(screen.getByLabelText('limits key 2'), { target: { value: 'RAM' } });
+      expect(screen.getByText('Lowercase keys only')).toBeInTheDocument();
+    });
+
+    it('should block submission while an entry has an empty or duplicate key', async () => {
+      const onSubmit = jest.fn();
+      const { container } = render(
+        <ZodForm schema={schema} onSubmit={onSubmit} defaultValues={{ limits: { cpu: 2 } }} />
+      );
+
+      fireEvent.click(screen.getByRole('button', { name: 'Add Entry' }));
+      fireEvent.change(screen.getByLabelText('limits key 2'), { target: { value: 'cpu' } });
+      fireEvent.submit(container.querySelector('form')!);
+
+      expect(await screen.findByText('Keys must be unique')).toBeInTheDocument();
+      expect(onSubmit).not.toHaveBeenCalled();
+
+      fireEvent.change(screen.getByLabelText('limits key 2'), { target: { value: '' } });
+      fireEvent.submit(container.querySelector('form')!);
+
+      expect(await screen.findByText('Every entry needs a key')).toBeInTheDocument();
+      expect(onSubmit).not.toHaveBeenCalled();
+
+      fireEvent.change(screen.getByLabelText('limits key 2'), { target: { value: 'ram' } });
+      fireEvent.submit(container.querySelector('form')!);
+
+      await waitFor(() => expect(onSubmit).toHaveBeenCalled());
+      expect(onSubmit.mock.calls[0][0]).toEqual({ limits: { cpu: 2, ram: 0 } });
+    });
+  });
+
+  describe('tuples, sets and maps', () => {
+    it('should render tuple positions inline', () => {
+      const schema = z.object({
+        location: z.tuple([z.number().describe('Latitude'), z.number().describe('Longitude')]),
+      });
+      const { container } = render(<ZodForm schema={schema} onSubmit={jest.fn()} />);
+
+      expect(screen.getByRole('group', { name: 'location' })).toBeInTheDocument();
+      expect(container.querySelector('input[name="location.1"]')).toHaveAttribute(
+        'placeholder',
+        'Longitude'
+      );
+    });
+
+    it('should edit sets as unique chips and submit a Set', async () => {
+      const onSubmit = jest.fn();
+      const schema = z.object({ tags: z.set(z.string()) });
+      const { container } = render(<ZodForm schema={schema} onSubmit={onSubmit} />);
+
+      const input = screen.getByLabelText('New tags');
+      fireEvent.change(input, { target: { value: 'react' } });
+      fireEvent.click(screen.getByRole('button', { name: 'Add' }));
+      fireEvent.change(input, { target: { value: 'react' } });
+      fireEvent.click(screen.getByRole('button', { name: 'Add' }));
+
+      expect(screen.getByText('This value has already been added')).toBeInTheDocument();
+
+      fireEvent.submit(container.querySelector('form')!);
+
+      await waitFor(() => expect(onSubmit).toHaveBeenCalled());
+      expect(onSubmit.mock.calls[0][0].tags).toEqual(new Set(['react']));
+    });
+
+    it('should edit maps as key/value entries and submit a Map', async () => {
+      const onSubmit = jest.fn();
+      const schema = z.object({ ports: z.map(z.number(), z.string()) });
+      const { container } = render(
+        <ZodForm
+          schema={schema}
+          onSubmit={onSubmit}
+          defaultValues={{ ports: new Map([[80, 'http']]) }}
+        />
+      );
+
+      expect(screen.getByLabelText('ports key 1')).toHaveValue('80');
+
+      fireEvent.submit(container.querySelector('form')!);
+
+      await waitFor(() => expect(onSubmit).toHaveBeenCalled());
+      expect(onSubmit.mock.calls[0][0].ports).toEqual(new Map([[80, 'http']]));
+    });
+  });
+
+  describe('recursive schemas', () => {
+    interface Comment {
+      text: string;
+      replies: Comment[];
+    }
+
+    const comment: z.ZodType<Comment> = z.lazy(() =>
+      z.object({
+        text: z.string(),
+        replies: z.array(comment),
+      })
+    );
+
+    it('should expand recursive items only when the user adds them', () => {
+      const schema = z.object({ thread: z.array(comment) });
+      const { container } = render(<ZodForm schema={schema} onSubmit={jest.fn()} />);
+
+      expect(container.querySelector('input[name="thread.0.text"]')).not.toBeInTheDocument();
+
+      fireEvent.click(screen.getByRole('button', { name: 'Add Item' }));
+
+      expect(container.querySelector('input[name="thread.0.text"]')).toHaveValue('');
+      expect(
+        container.querySelector('input[name="thread.0.replies.0.text"]')
+      ).not.toBeInTheDocument();
+    });
+
+    it('should add and remove optional recursive sections', () => {
+      interface Node {
+        label: string;
+        next?: Node;
+      }
+      const node: z.ZodType<Node> = z.lazy(() =>
+        z.object({ label: z.string(), next: node.optional() })
+      );
+      const { container } = render(
+        <ZodForm
+          schema={z.object({ head: node })}
+          onSubmit={jest.fn()}
+          defaultValues={{ head: { label: 'a' } }}
+        />
+      );
+
+      fireEvent.click(screen.getByRole('button', { name: 'Add next' }));
+      expect(container.querySelector('input[name="head.next.label"]')).toBeInTheDocument();
+
+      fireEvent.click(screen.getAllByRole('button', { name: 'Remove next' })[0]);
+      expect(container.querySelector('input[name="head.next.label"]')).not.toBeInTheDocument();
+    });
+
+    it('should not offer recursion past the maximum depth', () => {
+      const schema = z.object({ thread: z.array(comment) });
+      const { container } = render(
+        <ZodForm
+          schema={schema}
+          onSubmit={jest.fn()}
+          maxDepth={3}
+          defaultValues={{ thread: [{ text: 'root', replies: [] }] }}
+        />
+      );
+
+      expect(container.querySelector('input[name="thread.0.text"]')).toHaveValue('root');
+      expect(screen.getAllByRole('button', { name: 'Add Item' })).toHaveLength(1);
+    });
+  });
+
+  describe('field metadata', () => {
+    const schema = z.object({
+      title: withField(z.string(), { label: 'Title', placeholder: 'Post title' }),
+      details: z.object({
+        rating: withField(z.number().min(1).max(5), { label: 'Rating', type: 'stars', order: 1 }),
+        summary: withField(z.string(), { placeholder: 'Summary', order: 0 }),
+        notes: z.string(),
+      }),
+    });
+
+    it('should render schema metadata at any depth', () => {
+      const { container } = render(<ZodForm schema={schema} onSubmit={jest.fn()} />);
+
+      expect(container.querySelector('input[name="title"]')).toHaveAttribute(
+        'placeholder',
+        'Post title'
+      );
+      expect(screen.getByText('Rating')).toBeInTheDocument();
+      expect(container.querySelector('input[name="details.rating"]')).toHaveAttribute(
+        'type',
+        'hidden'
+      );
+    });
+
+    it('should order fields by their metadata order', () => {
+      const { container } = render(<ZodForm schema={schema} onSubmit={jest.fn()} />);
+      const names = Array.from(container.querySelectorAll('input[name^="details."]')).map(input =>
+        input.getAttribute('name')
+      );
+
+      expect(names).toEqual(['details.summary', 'details.rating', 'details.notes']);
+    });
+
+    it('should let fieldOptions override schema metadata', () => {
+      const { container } = render(
+        <ZodForm
+          schema={schema}
+          onSubmit={jest.fn()}
+          fieldOptions={{
+            title: { placeholder: 'Overridden' },
+            'details.rating': { type: 'number' },
+          }}
+        />
+      );
+
+      expect(container.querySelector('input[name="title"]')).toHaveAttribute(
+        'placeholder',
+        'Overridden'
+      );
+      expect(container.querySelector('input[name="details.rating"]')).toHaveAttribute(
+        'type',
+        'number'
+      );
+    });
+  });
+
+  describe('field mappers', () => {
+    it('should render fields with the mappers passed to the form', () => {
+      const schema = z.object({ items: z.array(z.object({ role: z.enum(['admin', 'user']) })) });
+      const { container } = render(
+        <ZodForm
+          schema={schema}
+          onSubmit={jest.fn()}
+          defaultValues={{ items: [{ role: 'user' }] }}
+          fieldMappers={[
+            {
+              predicate: fieldSchema => fieldSchema instanceof z.ZodEnum,
+              mapper: (fieldSchema, { next }) => ({ ...next(), type: 'select' }),
+            },
+          ]}
+        />
+      );
+
+      expect(container.querySelector('select[name="items.0.role"]')).toBeInTheDocument();
+    });
+  });
+
+  describe('date constraints', () => {
+    it('should set date input bounds and show the allowed range', () => {
+      const schema = z.object({
+        checkIn: z.date().min(new Date('2024-06-01')),
+        arrival: z.string().time(),
+      });
+      const { container } = render(<ZodForm schema={schema} onSubmit={jest.fn()} />);
+
+      expect(container.querySelector('input[name="checkIn"]')).toHaveAttribute('min', '2024-06-01');
+      expect(screen.getByText('On or after 2024-06-01')).toBeInTheDocument();
+      expect(container.querySelector('input[name="arrival"]')).toHaveAttribute('type', 'time');
+    });
+  });
+
+  describe('value coercion', () => {
+    it('should submit typed values parsed from the inputs', async () => {
+      const onSubmit = jest.fn();
+      const schema = z.object({
+        age: z.number().min(18),
+        birthday: z.date(),
+        nickname: z.string().optional(),
+        prices: z.record(z.string(), z.number()),
+      });
+      const { container } = render(
+        <ZodForm
+          schema={schema}
+          onSubmit={onSubmit}
+          defaultValues={{ age: 30, nickname: 'Ace', prices: { tea: 3 } }}
+        />
+      );
+
+      fireEvent.change(screen.getByLabelText('age'), { target: { value: '42' } });
+      fireEvent.change(screen.getByLabelText('birthday'), { target: { value: '1990-04-12' } });
+      fireEvent.change(screen.getByLabelText('nickname'), { target: { value: '' } });
+      fireEvent.change(screen.getByLabelText('tea value'), { target: { value: '3.5' } });
+      fireEvent.submit(container.querySelector('form')!);
+
+      await waitFor(() => expect(onSubmit).toHaveBeenCalled());
+      expect(onSubmit.mock.calls[0][0]).toEqual({
+        age: 42,
+        birthday: new Date('1990-04-12'),
+        prices: { tea: 3.5 },
+      });
+    });
+
+    it('should format typed values for the inputs', () => {
+      const schema = z.object({ birthday: z.date(), count: z.number().nullable() });
+      render(
+        <ZodForm
+          schema={schema}
+          onSubmit={jest.fn()}
+          defaultValues={{ birthday: new Date('1990-04-12'), count: null }}
+        />
+      );
+
+      expect(screen.getByLabelText('birthday')).toHaveValue('1990-04-12');
+      expect(screen.getByLabelText('count')).toHaveValue(null);
+    });
+  });
+
+  describe('native constraints', () => {
+    const schema = z.object({
+      username: z
+        .string()
+        .min(3)
+        .max(16)
+        .regex(/^[a-z]+$/),
+      bio: z.string().max(200).optional(),
+      age: z.number().int().min(18),
+      plan: z.enum(['free', 'starter', 'pro', 'team', 'enterprise']),
+    });
+
+    it('should emit constraint attributes on inputs, textareas and selects', () => {
+      const { container } = render(
+        <ZodForm
+          schema={schema}
+          onSubmit={jest.fn()}
+          fieldOptions={{ bio: { type: 'textarea' } }}
+        />
+      );
+      const username = container.querySelector('input[name="username"]');
+
+      expect(username).toBeRequired();
+      expect(username).toHaveAttribute('minlength', '3');
+      expect(username).toHaveAttribute('maxlength', '16');
+      expect(username).toHaveAttribute('pattern', '^[a-z]+$');
+      expect(container.querySelector('textarea[name="bio"]')).not.toBeRequired();
+      expect(container.querySelector('textarea[name="bio"]')).toHaveAttribute('maxlength', '200');
+      expect(container.querySelector('input[name="age"]')).toHaveAttribute('min', '18');
+      expect(container.querySelector('select[name="plan"]')).toBeRequired();
+    });
+
+    it('should leave validation to Zod once hydrated', () => {
+      const { container } = render(<ZodForm schema={schema} onSubmit={jest.fn()} />);
+
+      expect(container.querySelector('form')).toHaveAttribute('novalidate');
+    });
+
+    it('should only mark required fields for assistive technology when opted out', () => {
+      const { container } = render(
+        <ZodForm schema={schema} onSubmit={jest.fn()} nativeValidation={false} />
+      );
+      const username = container.querySelector('input[name="username"]');
+
+      expect(username).not.toHaveAttribute('required');
+      expect(username).not.toHaveAttribute('pattern');
+      expect(username).not.toHaveAttribute('minlength');
+      expect(username).toHaveAttribute('aria-required', 'true');
+      expect(container.querySelector('input[name="age"]')).toHaveAttribute('min', '18');
+    });
+  });
+
+  describe('JSON Schema forms', () => {
+    it('should render and submit a converted JSON Schema', async () => {
+      const onSubmit = jest.fn();
+      const schema = fromJsonSchema({
+        type: 'object',
+        required: ['email', 'seats'],
+        properties: {
+          email: { type: 'string', format: 'email', title: 'Work email' },
+          seats: { type: 'integer', minimum: 1, description: 'Including yourself' },
+        },
+      });
+      const { container } = render(<ZodForm schema={schema} onSubmit={onSubmit} />);
+
+      expect(screen.getByLabelText('Work email')).toHaveAttribute('type', 'email');
+      expect(screen.getByText('Including yourself')).toBeInTheDocument();
+
+      fireEvent.change(screen.getByLabelText('Work email'), { target: { value: 'a@b.co' } });
+      fireEvent.change(container.querySelector('input[name="seats"]')!, {
+        target: { value: '3' },
+      });
+      fireEvent.submit(container.querySelector('form')!);
+
+      await waitFor(() => expect(onSubmit).toHaveBeenCalled());
+      expect(onSubmit.mock.calls[0][0]).toEqual({ email: 'a@b.co', seats: 3 });
+    });
+  });
+
+  describe('form specs', () => {
+    it('should render a schema rebuilt from a stored spec', async () => {
+      const onSubmit = jest.fn();
+      const stored = JSON.stringify(
+        toFormSpec(
+          z.object({
+            plan: z.enum(['free', 'team']),
+            seats: withField(z.number().min(2), {
+              label: 'Seats',
+              showWhen: { field: 'plan', value: 'team' },
+            }),
+          })
+        )
+      );
+      const { schema } = fromFormSpec(JSON.parse(stored));
+      const { container } = render(<ZodForm schema={schema} onSubmit={onSubmit} />);
+
+      expect(screen.queryByLabelText('Seats')).not.toBeInTheDocument();
+
+      fireEvent.click(screen.getByLabelText('Team'));
+      fireEvent.change(await screen.findByLabelText('Seats'), { target: { value: '3' } });
+      fireEvent.submit(container.querySelector('form')!);
+
+      await waitFor(() => expect(onSubmit).toHaveBeenCalled());
+      expect(onSubmit.mock.calls[0][0]).toEqual({ plan: 'team', seats: 3 });
+    });
+  });
+
+  describe('layout config', () => {
+    const schema = z.object({
+      name: z.string(),
+      bio: withField(z.string().optional(), { type: 'textarea', colSpan: 4, rowSpan: 2 }),
+      email: withField(z.string().email(), { placeholder: 'you@example.com' }),
+      plan: z.enum(['free', 'pro', 'team', 'enterprise', 'custom']),
+      birthday: z.date().optional(),
+      terms: z.boolean(),
+    });
+
+    it('should lay fields out on a grid of the configured columns and spacing', () => {
+      const { container } = render(
+        <ZodForm
+          schema={schema}
+          layoutConfig={{ columns: 3, spacing: 'lg' }}
+          onSubmit={jest.fn()}
+        />
+      );
+      const grid = container.querySelector('input[name="name"]')!.closest('.grid')!;
+
+      expect(grid).toHaveStyle({ gridTemplateColumns: 'repeat(3, minmax(0, 1fr))' });
+      expect(grid).toHaveClass('gap-8');
+
+      // Spans are capped at the column count
+      const bio = container.querySelector('textarea[name="bio"]')!.closest('.grid > div');
+      expect(bio).toHaveStyle({ gridColumn: 'span 3 / span 3', gridRow: 'span 2 / span 2' });
+    });
+
+    it('should put labels beside their fields', () => {
+      render(
+        <ZodForm schema={schema} layoutConfig={{ labelPosition: 'left' }} onSubmit={jest.fn()} />
+      );
+      const label = screen.getByText('name');
+
+      expect(label.parentElement).toHaveClass('sm:grid-cols-3');
+      expect(label.nextElementSibling).toContainElement(screen.getByLabelText('name'));
+      expect(screen.getByRole('checkbox')).toBeInTheDocument();
+    });
+
+    it('should float labels for every input type', () => {
+      const { container } = render(
+        <ZodForm
+          schema={schema}
+          layoutConfig={{ labelPosition: 'floating' }}
+          onSubmit={jest.fn()}
+        />
+      );
+      const nameLabel = screen.getByText('name');
+
+      // Empty text inputs hold the label until they're focused or filled
+      expect(nameLabel).toHaveClass('top-2');
+      expect(nameLabel.parentElement).toHaveClass('group', 'relative');
+      expect(screen.getByText('bio')).toHaveClass('top-2');
+
+      fireEvent.change(screen.getByLabelText('name'), { target: { value: 'Ada' } });
+      expect(nameLabel).toHaveClass('-top-2');
+
+      // Inputs that show something when empty keep the label raised
+      expect(screen.getByText('email')).toHaveClass('-top-2');
+      expect(screen.getByText('plan')).toHaveClass('-top-2');
+      expect(screen.getByText('birthday')).toHaveClass('-top-2');
+      expect(container.querySelector('input[type="date"]')).toHaveAccessibleName('birthday');
+    });
+  });
+
+  describe('custom components', () => {
+    const ColorSwatches = ({ id, value, onChange, config }: CustomFieldProps<string>) => (
+      <div id={id} role="radiogroup">
+        {(config.options || []).map(option => (
+          <button
+            key={option.value}
+            type="button"
+            aria-pressed={value === option.value}
+            onClick={() => onChange(String(option.value))}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+    );
+
+    it('should render a custom type name with its registered component', async () => {
+      const onSubmit = jest.fn();
+      const schema = z.object({
+        color: withField(z.enum(['red', 'blue']), { type: 'colorSwatches', label: 'Color' }),
+      });
+
+      render(
+        <ZodForm
+          schema={schema}
+          customComponents={{ colorSwatches: ColorSwatches }}
+          onSubmit={onSubmit}
+        />
+      );
+
+      expect(screen.queryByRole('combobox')).not.toBeInTheDocument();
+      expect(screen.getByText('Color')).toHaveAttribute('for', 'color');
+
+      fireEvent.click(screen.getByRole('button', { name: 'Blue' }));
+      expect(screen.getByRole('button', { name: 'Blue' })).toHaveAttribute('aria-pressed', 'true');
+
+      fireEvent.click(screen.getByRole('button', { name: 'Submit' }));
+
+      await waitFor(() => expect(onSubmit).toHaveBeenCalledWith({ color: 'blue' }));
+    });
+
+    it('should prefer components registered for a path over those for a field type', () => {
+      const DatePicker = ({ name, value, field }: CustomFieldProps<Date>) => (
+        <output data-testid={name}>
+          {field.type}:{value.toISOString().slice(0, 10)}
+        </output>
+      );
+      const Deadline = ({ error }: CustomFieldProps) => <span>{error ? 'late' : 'deadline'}</span>;
+
+      render(
+        <ZodForm
+          schema={z.object({ start: z.date(), end: z.date() })}
+          defaultValues={{ start: new Date('2024-05-01'), end: new Date('2024-06-01') }}
+          customComponents={{ date: DatePicker, end: Deadline }}
+          onSubmit={jest.fn()}
+        />
+      );
+
+      expect(screen.getByTestId('start')).toHaveTextContent('date:2024-05-01');
+      expect(screen.getByText('deadline')).toBeInTheDocument();
+      expect(screen.queryByTestId('end')).not.toBeInTheDocument();
+    });
+  });
+
+  describe('tabs', () => {
+    const schema = z.object({
+      title: z.string().min(1, 'Title is required'),
+      profile: z.object({
+        name: z.string().min(2, 'Name is too short'),
+        bio: z.string().optional(),
+      }),
+      billing: z.object({
+        card: z.string().length(16, 'Card number must have 16 digits'),
+        zip: z.string().min(5, 'ZIP is too short'),
+      }),
+    });
+
+    it('should give each top-level object a tab under the tabs layout', () => {
+      const { container } = render(<ZodForm schema={schema} layout="tabs" onSubmit={jest.fn()} />);
+
+      expect(screen.getAllByRole('tab').map(tab => tab.textContent)).toEqual([
+        'profile',
+        'billing',
+      ]);
+      expect(screen.getByRole('tab', { name: 'profile' })).toHaveAttribute('aria-selected', 'true');
+      expect(container.querySelector('input[name="profile.name"]')).toBeVisible();
+      expect(container.querySelector('input[name="billing.card"]')).not.toBeVisible();
+
+      // Fields on no tab stay above the tabs
+      expect(container.querySelector('input[name="title"]')).toBeVisible();
+
+      fireEvent.click(screen.getByRole('tab', { name: 'billing' }));
+
+      expect(container.querySelector('input[name="billing.card"]')).toBeVisible();
+      expect(screen.getByRole('tabpanel')).toContainElement(
+        container.querySelector('input[name="billing.zip"]')
+      );
+    });
+
+    it('should keep the unlisted siblings of a listed nested field above the tabs', () => {
+      const { container } = render(
+        <ZodForm
+          schema={schema}
+          tabs={[{ title: 'Card', fields: ['billing.card'] }]}
+          onSubmit={jest.fn()}
+        />
+      );
+
+      const zip = container.querySelector('input[name="billing.zip"]');
+      expect(zip).toBeVisible();
+      expect(screen.getByRole('tabpanel')).not.toContainElement(zip as HTMLElement);
+    });
+
+    it('should badge tabs with errors and show the first one after a failed submit', async () => {
+      const { container } = render(
+        <ZodForm
+          schema={schema}
+          tabs={[
+            { title: 'Profile', fields: ['profile'] },
+            { title: 'Billing', fields: ['billing.card', 'billing.zip'] },
+          ]}
+          defaultValues={{
+            title: 'Order',
+            profile: { name: 'Ada' },
+            billing: { card: '', zip: '' },
+          }}
+          onSubmit={jest.fn()}
+        />
+      );
+
+      fireEvent.submit(container.querySelector('form')!);
+
+      const billing = await screen.findByRole('tab', { name: 'Billing 2 errors' });
+      expect(billing).toHaveAttribute('aria-selected', 'true');
+      expect(screen.getByText('ZIP is too short')).toBeVisible();
+
+      fireEvent.keyDown(billing, { key: 'ArrowLeft' });
+
+      expect(screen.getByRole('tab', { name: 'Profile' })).toHaveFocus();
+      expect(container.querySelector('input[name="profile.name"]')).toBeVisible();
+    });
+  });
+
+  describe('sections', () => {
+    const schema = z.object({
+      name: z.string().min(2, 'Name is too short'),
+      email: z.string().email('Invalid email'),
+      street: z.string().min(1, 'Street is required'),
+      city: z.string().min(1, 'City is required'),
+      notes: z.string().optional(),
+    });
+    const sections = [
+      { title: 'Contact', fields: ['name', 'email'] },
+      { title: 'Address', fields: ['street', 'city'], collapsible: true, defaultExpanded: false },
+    ];
+
+    it('should group fields in fieldsets with legends', () => {
+      const { container } = render(
+        <ZodForm schema={schema} sections={sections} onSubmit={jest.fn()} />
+      );
+
+      const contact = screen.getByRole('group', { name: 'Contact' });
+      expect(contact.tagName).toBe('FIELDSET');
+      expect(contact).toContainElement(container.querySelector('input[name="email"]'));
+
+      // Fields outside every section follow them
+      const notes = container.querySelector('input[name="notes"]')!;
+      expect(notes).toBeVisible();
+      expect(notes.closest('fieldset')).toBeNull();
+    });
+
+    it('should render the unlisted siblings of a listed nested field after the sections', () => {
+      const { container } = render(
+        <ZodForm
+          schema={z.object({
+            address: z.object({
+              street: z.string().min(1, 'Street is required'),
+              city: z.string(),
+            }),
+          })}
+          sections={[{ title: 'City', fields: ['address.city'] }]}
+          onSubmit={jest.fn()}
+        />
+      );
+
+      expect(screen.getByRole('group', { name: 'City' })).toContainElement(
+        container.querySelector('input[name="address.city"]')
+      );
+
+      const street = container.querySelector('input[name="address.street"]');
+      expect(street).toBeVisible();
+      expect(street!.closest('fieldset')).toBeNull();
+    });
+
+    it('should collapse sections and count their errors while collapsed', async () => {
+      const { container } = render(
+        <ZodForm schema={schema} sections={sections} onSubmit={jest.fn()} />
+      );
+      const toggle = screen.getByRole('button', { name: 'Address' });
+
+      expect(toggle).toHaveAttribute('aria-expanded', 'false');
+      expect(container.querySelector('input[name="city"]')).not.toBeVisible();
+
+      fireEvent.submit(container.querySelector('form')!);
+
+      expect(await screen.findByText('2 errors')).toBeInTheDocument();
+
+      fireEvent.click(screen.getByRole('button', { name: /Address/ }));
+
+      expect(container.querySelector('input[name="city"]')).toBeVisible();
+      expect(screen.getByText('City is required')).toBeInTheDocument();
+      expect(screen.queryByText('2 errors')).not.toBeInTheDocument();
+    });
+  });
+
+  describe('wizard steps', () => {
+    const schema = z.object({
+      name: z.string().min(2, 'Name is too short'),
+      email: z.string().email('Invalid email'),
+      plan: z.enum(['free', 'pro']),
+      address: z.object({ city: z.string().min(1, 'City is required') }),
+      newsletter: z.boolean(),
+    });
+    const steps = [
+      { title: 'Account', fields: ['name', 'email'] },
+      { title: 'Plan', fields: ['plan'] },
+      { title: 'Address', fields: ['address'] },
+    ];
+
+    const fillAccount = (container: HTMLElement) => {
+      fireEvent.change(container.querySelector('input[name="name"]')!, {
+        target: { value: 'Ada' },
+      });
+      fireEvent.change(container.querySelector('input[name="email"]')!, {
+        target: { value: 'ada@example.com' },
+      });
+    };
+
+    it('should put the unlisted siblings of a listed nested field on the last step', async () => {
+      const onSubmit = jest.fn();
+      const { container } = render(
+        <ZodForm
+          schema={z.object({
+            name: z.string(),
+            address: z.object({
+              street: z.string().min(1, 'Street is required'),
+              city: z.string().min(1, 'City is required'),
+            }),
+          })}
+          steps={[
+            { title: 'City', fields: ['address.city'] },
+            { title: 'Name', fields: ['name'] },
+          ]}
+          reviewStep={false}
+          onSubmit={onSubmit}
+        />
+      );
+
+      const street = container.querySelector('input[name="address.street"]');
+      expect(street).not.toBeVisible();
+
+      fireEvent.change(container.querySelector('input[name="address.city"]')!, {
+        target: { value: 'Paris' },
+      });
+      fireEvent.click(screen.getByRole('button', { name: 'Next' }));
+
+      await waitFor(() => expect(street).toBeVisible());
+      fireEvent.change(street!, { target: { value: 'Rue de Rivoli' } });
+      fireEvent.click(screen.getByRole('button', { name: 'Submit' }));
+
+      await waitFor(() => expect(onSubmit).toHaveBeenCalled());
+      expect(onSubmit.mock.calls[0][0].address).toEqual({ street: 'Rue de Rivoli', city: 'Paris' });
+    });
+
+    it('should show one step at a time and validate only its fields', async () => {
+      const { container } = render(<ZodForm schema={schema} steps={steps} onSubmit={jest.fn()} />);
+
+      expect(screen.getByText('Step 1 of 4')).toBeInTheDocument();
+      expect(container.querySelector('input[name="name"]')).toBeVisible();
+      expect(container.querySelector('input[name="address.city"]')).not.toBeVisible();
+
+      fireEvent.click(screen.getByRole('button', { name: 'Next' }));
+
+      expect(await screen.findByText('Name is too short')).toBeInTheDocument();
+      expect(screen.queryByText('City is required')).not.toBeInTheDocument();
+      expect(screen.getByText('Step 1 of 4')).toBeInTheDocument();
+
+      fillAccount(container);
+      fireEvent.click(screen.getByRole('button', { name: 'Next' }));
+
+      expect(await screen.findByText('Step 2 of 4')).toBeInTheDocument();
+      expect(container.querySelector('input[name="name"]')).not.toBeVisible();
+      expect(screen.queryByText('City is required')).not.toBeInTheDocument();
+    });
+
+    it('should go back freely and validate the steps passed when jumping ahead', async () => {
+      const { container } = render(<ZodForm schema={schema} steps={steps} onSubmit={jest.fn()} />);
+
+      fireEvent.click(screen.getByRole('button', { name: /Address/ }));
+
+      expect(await screen.findByText('Invalid email')).toBeInTheDocument();
+      expect(screen.getByText('Step 1 of 4')).toBeInTheDocument();
+
+      fillAccount(container);
+      fireEvent.click(screen.getByRole('button', { name: /Address/ }));
+
+      expect(await screen.findByText('Step 3 of 4')).toBeInTheDocument();
+
+      fireEvent.click(screen.getByRole('button', { name: 'Back' }));
+
+      expect(await screen.findByText('Step 2 of 4')).toBeInTheDocument();
+      expect(screen.getByRole('button', { name: /Plan/ })).toHaveAttribute('aria-current', 'step');
+    });
+
+    it('should review every step before submitting', async () => {
+      const onSubmit = jest.fn();
+      const { container } = render(<ZodForm schema={schema} steps={steps} onSubmit={onSubmit} />);
+
+      fillAccount(container);
+      fireEvent.click(screen.getByRole('button', { name: 'Next' }));
+      await screen.findByText('Step 2 of 4');
+      fireEvent.click(screen.getByRole('button', { name: 'Next' }));
+      await screen.findByText('Step 3 of 4');
+
+      // Fields not listed in a step join the last one
+      expect(container.querySelector('input[name="newsletter"]')).toBeVisible();
+
+      fireEvent.change(container.querySelector('input[name="address.city"]')!, {
+        target: { value: 'London' },
+      });
+      fireEvent.click(screen.getByRole('button', { name: 'Next' }));
+
+      expect(await screen.findByText('Step 4 of 4')).toBeInTheDocument();
+      expect(screen.getByText('ada@example.com')).toBeInTheDocument();
+      expect(screen.getByText('London')).toBeInTheDocument();
+      expect(screen.getByText('No')).toBeInTheDocument();
+      expect(onSubmit).not.toHaveBeenCalled();
+
+      fireEvent.click(screen.getByRole('button', { name: 'Submit' }));
+
+      await waitFor(() => expect(onSubmit).toHaveBeenCalled());
+      expect(onSubmit.mock.calls[0][0]).toEqual({
+        name: 'Ada',
+        email: 'ada@example.com',
+        plan: 'free',
+        address: { city: 'London' },
+        newsletter: false,
+      });
+    });
+
+    it('should show the first step with an error returned by the action', async () => {
+      const action = jest.fn();
+      const { container, rerender } = render(
+        <ZodForm schema={schema} steps={steps} reviewStep={false} action={action} />
+      );
+
+      fillAccount(container);
+      fireEvent.click(screen.getByRole('button', { name: /Address/ }));
+      await screen.findByText('Step 3 of 3');
+
+      rerender(
+        <ZodForm
+          schema={schema}
+          steps={steps}
+          reviewStep={false}
+          action={action}
+          actionState={{ status: 'error', fieldErrors: { email: 'Email is taken' } }}
+        />
+      );
+
+      expect(await screen.findByText('Email is taken')).toBeVisible();
+      expect(screen.getByText('Step 1 of 3')).toBeInTheDocument();
+      expect(screen.getByRole('button', { name: /Account/ })).toHaveTextContent('(has errors)');
+    });
+  });
+
+  describe('server actions', () => {
+    const schema = z.object({
+      name: z.string().min(2, 'Name is too short'),
+      address: z.object({ city: z.string() }),
+    });
+
+    it('should show the errors and values returned by the action', () => {
+      const { container } = render(
+        <ZodForm
+          schema={schema}
+          action={jest.fn()}
+          actionState={{
+            status: 'error',
+            fieldErrors: { 'address.city': 'Unknown city' },
+            formErrors: ['Try again later'],
+            values: { name: 'Ada', address: { city: 'Atlantis' } },
+          }}
+        />
+      );
+
+      expect(container.querySelector('input[name="name"]')).toHaveValue('Ada');
+      expect(container.querySelector('input[name="address.city"]')).toHaveValue('Atlantis');
+      expect(screen.getByText('Unknown city')).toBeInTheDocument();
+      expect(screen.getByText('Try again later')).toBeInTheDocument();
+    });
+
+    it('should call the action with the form data once the values are valid', async () => {
+      const action = jest.fn();
+      const { container } = render(<ZodForm schema={schema} action={action} />);
+
+      fireEvent.change(container.querySelector('input[name="name"]')!, {
+        target: { value: 'A' },
+      });
+      fireEvent.submit(container.querySelector('form')!);
+
+      expect(await screen.findByText('Name is too short')).toBeInTheDocument();
+      expect(action).not.toHaveBeenCalled();
+
+      fireEvent.change(container.querySelector('input[name="name"]')!, {
+        target: { value: 'Ada' },
+      });
+      fireEvent.change(container.querySelector('input[name="address.city"]')!, {
+        target: { value: 'Paris' },
+      });
+      fireEvent.submit(container.querySelector('form')!);
+
+      await waitFor(() => expect(action).toHaveBeenCalled());
+      const formData: FormData = action.mock.calls[0][0];
+      expect(formData.get('name')).toBe('Ada');
+      expect(formData.get('address.city')).toBe('Paris');
+    });
+
+    it('should post records and sets that the action reads back', async () => {
+      const handler = jest.fn();
+      const serverAction = createZodFormAction(
+        z.object({ scores: z.record(z.number()), tags: z.set(z.string()) }),
+        handler
+      );
+      const action = jest.fn();
+      const { container } = render(
+        <ZodForm
+          schema={z.object({ scores: z.record(z.number()), tags: z.set(z.string()) })}
+          defaultValues={{ scores: { math: 90 }, tags: new Set(['a', 'b']) }}
+          action={action}
+        />
+      );
+
+      fireEvent.submit(container.querySelector('form')!);
+      await waitFor(() => expect(action).toHaveBeenCalled());
+
+      // Posted by the form once hydrated, and natively from the rendered inputs
+      const posted = [action.mock.calls[0][0], new FormData(container.querySelector('form')!)];
+      for (const formData of posted) {
+        expect(await serverAction(initialActionState, formData)).toEqual({
+          status: 'success',
+          result: undefined,
+        });
+      }
+
+      expect(handler).toHaveBeenCalledTimes(2);
+      handler.mock.calls.forEach(([data]) =>
+        expect(data).toEqual({ scores: { math: 90 }, tags: new Set(['a', 'b']) })
+      );
+    });
+  });
+
+  describe('zod 4 schemas', () => {
+    const schema = z4.object({
+      name: z4.string().min(2, 'Name is too short').meta({ placeholder: 'Your name' }),
+      ports: z4.map(z4.number(), z4.string()),
+    });
+
+    it('should show validation errors', async () => {
+      const onSubmit = jest.fn();
+      const { container } = render(<ZodForm schema={schema} onSubmit={onSubmit} />);
+
+      expect(container.querySelector('input[name="name"]')).toHaveAttribute(
+        'placeholder',
+        'Your name'
+      );
+
+      fireEvent.change(container.querySelector('input[name="name"]')!, {
+        target: { value: 'A' },
+      });
+      fireEvent.submit(container.querySelector('form')!);
+
+      expect(await screen.findByText('Name is too short')).toBeInTheDocument();
+      expect(onSubmit).not.toHaveBeenCalled();
+    });
+
+    it('should submit parsed values', async () => {
+      const onSubmit = jest.fn();
+      const { container } = render(
+        <ZodForm
+          schema={schema}
+          onSubmit={onSubmit}
+          defaultValues={{ name: 'Ada', ports: new Map([[443, 'https']]) }}
+        />
+      );
+
+      fireEvent.submit(container.querySelector('form')!);
+
+      await waitFor(() => expect(onSubmit).toHaveBeenCalled());
+      expect(onSubmit.mock.calls[0][0]).toEqual({ name: 'Ada', ports: new Map([[443, 'https']]) });
+    });
+  });
+});
@@ -1,9 +1,59 @@
-import React, { useMemo } from 'react';
-import { Controller, Path, FieldErrors } from 'react-hook-form';
+import React, { useCallback, useMemo, useRef, useState } from 'react';
+import {
+  Controller,
+  Path,
+  FieldError,
+  FieldErrors,
+  UseFormReturn,
+  get,
+  set,
+} from 'react-hook-form';
 import { z } from 'zod';
-import { ZodFormConfig, FormData, FieldType, Theme } from '../types';
-import { useZodForm, useConditionalFields, useArrayField } from '../hooks/useZodForm';
+import {
+  ZodFormConfig,
+  FormData,
+  FieldType,
+  FieldConfig,
+  FieldAnalysis,
+  Theme,
+  AnyZodSchema,
+  CustomFieldProps,
+} from '../types';
+import {
+  useZodForm,
+  useConditionalFields,
+  useArrayField,
+  useRecordField,
+  useFormSteps,
+} from '../hooks/useZodForm';
 import { cn, themeClasses, getThemeClasses } from '../utils/cn';
+import {
+  DEFAULT_MAX_DEPTH,
+  getPathDepth,
+  parseSchema,
+  flattenFields,
+  analyzeField,
+  mapZodTypeToFieldType,
+  unwrapSchema,
+  generateDefaultValue,
+  generateDefaultValues,
+  matchUnionMember,
+  isFieldType,
+} from '../utils/schema-parser';
+import { coerceMapKey } from '../utils/form-values';
+import { toFormData } from '../utils/form-data';
+import { getValueCodec } from '../utils/value-codecs';
+import { getNativeConstraints } from '../utils/native-constraints';
+import {
+  getSchemaKind,
+  getArrayElement,
+  getKeyType,
+  getValueType,
+  getObjectShape,
+  getDiscriminatedVariant,
+  getDiscriminatedVariants,
+} from '../utils/zod-introspection';
+import { getFieldMetadata } from '../utils/field-metadata';
 
 // Import all UI components
 import {
@@ -17,17 +67,21 @@ import {
   RadioGroup,
   Button,
   Switch,
+  StepIndicator,
+  FormSection,
+  Tabs,
+  SegmentedControl,
   StarRating,
   FileUpload,
 } from './ui';
 
-import { ArrayField, ObjectField } from './fields';
+import { ArrayField, ObjectField, RecordField, SetField } from './fields';
 
-interface ZodFormProps<T extends z.ZodTypeAny> extends ZodFormConfig {
+interface ZodFormProps<T extends AnyZodSchema> extends ZodFormConfig {
   schema: T;
   className?: string;
   children?: React.ReactNode;
-  onSubmit: (data: FormData<T>) => void | Promise<void>;
+  onSubmit?: (data: FormData<T>) => void | Promise<void>;
 }
 
 /**
@@ -56,40 +110,89 @@ interface ZodFormProps<T extends z.ZodTypeAny> extends ZodFormConfig {
  * @param props - Configuration and options for the form
  * @returns React form component
  */
-export function ZodForm<T extends z.ZodTypeAny>({
+export function ZodForm<T extends AnyZodSchema>({
   schema,
   className,
   children,
   onSubmit,
   onError,
   onChange,
+  action,
+  actionState,
   theme = 'dark',
   layout = 'vertical',
+  layoutConfig,
   fieldOptions = {},
+  sections,
+  tabs,
+  steps,
+  reviewStep = true,
+  maxDepth = DEFAULT_MAX_DEPTH,
+  registry,
+  fieldMappers,
+  customComponents = {},
   submitButtonText = 'Submit',
   resetButtonText = 'Reset',
+  nextButtonText = 'Next',
+  backButtonText = 'Back',
+  reviewStepTitle = 'Review',
   showSubmitButton = true,
   showResetButton = false,
   loading = false,
   disabled = false,
   defaultValues,
   mode = 'onChange',
+  nativeValidation = true,
   ...restProps
 }: ZodFormProps<T>) {
+  const formRef = useRef<HTMLFormElement>(null);
+
+  // Once the values pass validation, hand them to the action as the browser would post them
+  const submitData = useCallback(
+    async (data: FormData<T>) => {
+      const formElement = formRef.current;
+
+      if (typeof action === 'function') {
+        const formData = toFormData(schema, data);
+        React.startTransition(() => {
+          action(formData);
+        });
+      } else if (typeof action === 'string' && formElement) {
+        formElement.submit();
+      }
+
+      await onSubmit?.(data);
+    },
+    [schema, action, onSubmit]
+  );
+
+  // Errors returned by the action, shown on their fields
+  const actionErrors = useMemo(
+    () => toFieldErrors(actionState?.fieldErrors),
+    [actionState?.fieldErrors]
+  );
+
   // Initialize form
   const form = useZodForm({
     schema,
-    onSubmit,
+    onSubmit: submitData,
     onError,
-    defaultValues,
+    // After a failed submission, start from what was submitted
+    defaultValues: actionState?.values ?? defaultValues,
+    errors: actionErrors as FieldErrors<FormData<T>> | undefined,
     mode,
+    maxDepth,
+    registry,
+    fieldMappers,
   });
 
   const {
     control,
-    handleSubmit,
     watch,
-    formState: { errors, isSubmitting },
+    setValue,
+    clearErrors,
+    reportFieldError,
+    formState: { errors, isSubmitting, submitCount },
     fields,
     submitForm,
     resetForm,
@@ -98,8 +201,108 @@ export function ZodForm<T extends z.ZodTypeAny>({
   // Watch all form values for conditional logic
   const formValues = watch();
 
+  // Native validation only guards the form until it hydrates; Zod reports errors after that
+  const [isHydrated, setIsHydrated] = useState(false);
+  React.useEffect(() => setIsHydrated(true), []);
+
+  // Union members explicitly chosen by the user, keyed by field path
+  const [unionSelections, setUnionSelections] = useState<Record<string, number>>({});
+
+  // Options for fields parsed while rendering, e.g. array items and record values
+  const parseOptions = useMemo(
+    () => ({ maxDepth, registry, fieldMappers }),
+    [maxDepth, registry, fieldMappers]
+  );
+
+  // Every field in the tree, keyed by dotted path
+  const flatFields = useMemo(() => flattenFields(fields), [fields]);
+
   // Determine visible fields based on conditional logic
-  const visibleFields = useConditionalFields(fields, formValues);
+  const visibleFields = useConditionalFields(flatFields, formValues);
+
+  // Field paths per wizard step: unlisted fields join the last step, and the review step has none
+  const stepFields = useMemo(() => {
+    if (!steps?.length) return [];
+
+    const unlisted = getUnlistedPaths(fields, fieldOptions, steps);
+    const grouped = steps.map((step, index) =>
+      index === steps.length - 1 ? [...step.fields, ...unlisted] : step.fields
+    );
+
+    return reviewStep ? [...grouped, []] : grouped;
+  }, [steps, reviewStep, fields, fieldOptions]);
+
+  const isWizard = stepFields.length > 0;
+
+  // Tab groups: the configured tabs, or one per top-level object under the tabs layout
+  const tabGroups = useMemo(() => {
+    if (tabs?.length) return tabs;
+    if ((layoutConfig?.layout ?? layout) !== 'tabs') return [];
+
+    return sortFields(fields, fieldOptions)
+      .filter(field => field.type === 'object' && field.config.fields && !field.config.lazy)
+      .map(field => ({
+        title: fieldOptions[field.path]?.label || field.config.label || field.name,
+        description: fieldOptions[field.path]?.description || field.config.description,
+        fields: sortFields(field.config.fields!, fieldOptions).map(child => child.path),
+      }));
+  }, [tabs, layoutConfig?.layout, layout, fields, fieldOptions]);
+
+  const hasTabs = !isWizard && tabGroups.length > 0;
+  const hasSections = !isWizard && !hasTabs && !!sections?.length;
+  const [activeTab, setActiveTab] = useState(0);
+
+  // Fields on no tab, shown above the tabs
+  const untabbedPaths = useMemo(
+    () => (hasTabs ? getUnlistedPaths(fields, fieldOptions, tabGroups) : []),
+    [hasTabs, fields, fieldOptions, tabGroups]
+  );
+
+  // Effects reach this through a ref, so they run after submits and new action errors only,
+  // rather than on every change of the errors
+  const showFirstTabError = useRef<(fieldErrors?: FieldErrors) => void>();
+  showFirstTabError.current = (fieldErrors = errors) => {
+    const firstInvalid = tabGroups.findIndex(group =>
+      group.fields.some(path => !!get(fieldErrors, path))
+    );
+    if (hasTabs && firstInvalid !== -1) setActiveTab(firstInvalid);
+  };
+
+  // After a failed submit, or errors returned by the action, show the first tab with an error
+  React.useEffect(() => {
+    if (submitCount > 0) showFirstTabError.current?.();
+  }, [submitCount]);
+
+  React.useEffect(() => {
+    if (actionErrors) showFirstTabError.current?.(actionErrors);
+  }, [actionErrors]);
+
+  // Fields outside every section, shown after them
+  const unsectionedPaths = useMemo(
+    () => (hasSections ? getUnlistedPaths(fields, fieldOptions, sections!) : []),
+    [hasSections, fields, fieldOptions, sections]
+  );
+  const wizard = useFormSteps(stepFields, form);
+
+  // Show the first step with an error returned by the action; the wizard changes on every
+  // render, so the effect reaches it through a ref
+  const latestWizard = useRef(wizard);
+  latestWizard.current = wizard;
+
+  React.useEffect(() => {
+    if (isWizard && actionErrors) latestWizard.current.showFirstError(actionErrors);
+  }, [isWizard, actionErrors]);
+
+  // Until the last step, submitting (e.g. pressing Enter) moves to the next step
+  const handleFormSubmit = (event: React.FormEvent) => {
+    if (isWizard && isHydrated && !wizard.isLastStep) {
+      event.preventDefault();
+      wizard.next();
+      return;
+    }
+
+    submitForm(event);
+  };
 
   // Handle form change events
   React.useEffect(() => {
@@ -111,27 +314,42 @@ export function ZodForm<T extends z.ZodTypeAny>({
   // Theme classes
   const themeConfig = getThemeClasses(theme);
 
-  const formClasses = cn(
-    'zf-form',
-    themeClasses.form,
-    themeConfig.root,
-    layout === 'horizontal' && 'space-y-0 grid grid-cols-2 gap-6',
-    layout === 'grid' && 'grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6',
-    className
-  );
+  // Fields stack, or sit on a grid of `columns` (or the layout's default columns)
+  const columns = layoutConfig?.columns;
+  const resolvedLayout = layoutConfig?.layout ?? layout;
+  const spacing = SPACING_CLASSES[layoutConfig?.spacing ?? 'md'];
+  const labelPosition = layoutConfig?.labelPosition ?? 'top';
+  const isGrid = !!columns || resolvedLayout === 'horizontal' || resolvedLayout === 'grid';
+
+  const fieldLayout = {
+    className: cn(
+      isGrid ? ['grid', spacing.gap] : spacing.stack,
+      !columns && resolvedLayout === 'horizontal' && 'grid-cols-2',
+      !columns && resolvedLayout === 'grid' && 'grid-cols-1 md:grid-cols-2 lg:grid-cols-3'
+    ),
+    style: columns ? { gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))` } : undefined,
+  };
+
+  const formClasses = cn('zf-form', themeClasses.form, spacing.stack, themeConfig.root, className);
 
-  // Render individual field
-  const renderField = (name: string, fieldAnalysis: (typeof fields)[string]) => {
-    if (!visibleFields[name]) return null;
+  // Render individual field (recursively for nested objects and arrays)
+  const renderField = (fieldAnalysis: FieldAnalysis) => {
+    const name = fieldAnalysis.path;
+    if (visibleFields[name] === false) return null;
 
     const fieldConfig = { ...fieldAnalysis.config, ...fieldOptions[name] };
-    const fieldError = (errors as any)[name];
+    const type = isFieldType(fieldConfig.type) ? fieldConfig.type : fieldAnalysis.type;
+    const CustomComponent =
+      customComponents[name] ??
+      (fieldConfig.type ? customComponents[fieldConfig.type] : undefined) ??
+      customComponents[type];
+    const fieldError = get(errors, name);
     const isFieldDisabled = disabled || fieldConfig.disabled || loading;
     const isFieldReadOnly = fieldConfig.readOnly;
 
     const fieldProps = {
       name,
-      label: fieldConfig.label || name,
+      label: fieldConfig.label || fieldAnalysis.name,
       placeholder: fieldConfig.placeholder,
       description: fieldConfig.description,
       error: fieldError,
@@ -142,25 +360,155 @@ export function ZodForm<T extends z.ZodTypeAny>({
     };
 
     const containerClasses = cn(themeClasses.fieldContainer, fieldConfig.containerClassName);
+    const colSpan =
+      fieldConfig.colSpan && columns ? Math.min(fieldConfig.colSpan, columns) : fieldConfig.colSpan;
+    const containerStyle =
+      colSpan || fieldConfig.rowSpan
+        ? {
+            gridColumn: colSpan ? `span ${colSpan} / span ${colSpan}` : undefined,
+            gridRow: fieldConfig.rowSpan
+              ? `span ${fieldConfig.rowSpan} / span ${fieldConfig.rowSpan}`
+              : undefined,
+          }
+        : undefined;
+
+    // A registered component takes the whole value, even of an object or array
+    if (CustomComponent) {
+      return (
+        <div key={name} className={containerClasses} style={containerStyle}>
+          <Controller
+            name={name as Path<FormData<T>>}
+            control={control}
+            render={({ field, fieldState }) => {
+              const customProps: CustomFieldProps = {
+                id: name,
+                name,
+                value: field.value,
+                onChange: field.onChange,
+                onBlur: field.onBlur,
+                error: fieldState.error,
+                label: fieldProps.label,
+                placeholder: fieldProps.placeholder,
+                disabled: isFieldDisabled,
+                readOnly: isFieldReadOnly,
+                required: fieldProps.required,
+                config: fieldConfig,
+                field: fieldAnalysis,
+              };
+
+              return renderLabelledControl(
+                name,
+                fieldProps,
+                <CustomComponent {...customProps} />,
+                renderFieldMessages(fieldProps.description, fieldConfig.hint, fieldState.error)
+              );
+            }}
+          />
+        </div>
+      );
+    }
+
+    // Objects and arrays are not values of their own: render their children's controllers directly
+    if (type === 'object') {
+      const objectConfig = { ...fieldConfig, label: fieldProps.label };
+
+      // Recursive sections stay collapsed until the user adds them
+      if (fieldConfig.lazy && get(formValues, name) == null) {
+        return getPathDepth(name) < maxDepth ? (
+          <div key={name} className={containerClasses} style={containerStyle}>
+            {renderLazyObjectPlaceholder(name, fieldAnalysis, objectConfig)}
+          </div>
+        ) : null;
+      }
+
+      return (
+        <div key={name} className={containerClasses} style={containerStyle}>
+          {renderObjectField(name, fieldAnalysis, objectConfig)}
+        </div>
+      );
+    }
+
+    if (type === 'array') {
+      return (
+        <div key={name} className={containerClasses} style={containerStyle}>
+          {renderArrayField(name, fieldAnalysis, { ...fieldConfig, label: fieldProps.label })}
+        </div>
+      );
+    }
+
+    if (type === 'tuple') {
+      return (
+        <div key={name} className={containerClasses} style={containerStyle}>
+          {renderTupleField(name, { ...fieldConfig, label: fieldProps.label })}
+        </div>
+      );
+    }
+
+    if (type === 'set') {
+      return (
+        <div key={name} className={containerClasses} style={containerStyle}>
+          {renderSetField(name, fieldAnalysis, { ...fieldConfig, label: fieldProps.label })}
+        </div>
+      );
+    }
+
+    if (type === 'record' || type === 'map') {
+      return (
+        <div key={name} className={containerClasses} style={containerStyle}>
+          {renderRecordField(name, fieldAnalysis, { ...fieldConfig, label: fieldProps.label })}
+        </div>
+      );
+    }
+
+    if (type === 'union') {
+      return (
+        <div key={name} className={containerClasses} style={containerStyle}>
+          {renderUnionField(name, { ...fieldConfig, label: fieldProps.label })}
+        </div>
+      );
+    }
+
+    if (type === 'discriminated-union') {
+      return (
+        <div key={name} className={containerClasses} style={containerStyle}>
+          {renderDiscriminatedUnionField(name, fieldAnalysis, {
+            ...fieldConfig,
+            label: fieldProps.label,
+          })}
+        </div>
+      );
+    }
 
     return (
-      <div key={name} className={containerClasses}>
+      <div key={name} className={containerClasses} style={containerStyle}>
         <Controller
           name={name as Path<FormData<T>>}
           control={control}
           render={({ field, fieldState }) => {
+            const hasOwnLabel = SELF_LABELLED_TYPES.includes(type);
+            const codec = getValueCodec(fieldAnalysis.schema, type);
             const componentProps = {
               ...fieldProps,
               ...field,
+              ...getConstraintProps(fieldAnalysis.schema, type, fieldConfig),
+              ...(!hasOwnLabel && { id: name }),
+              value: codec.format(field.value),
+              onChange: (event: any) => field.onChange(codec.parse(getEventValue(event))),
               error: fieldState.error,
             };
 
-            return (
-              <>
-                {renderFieldComponent(fieldAnalysis.type, componentProps, fieldConfig)}
-                {fieldProps.description && <Description>{fieldProps.description}</Description>}
-                <ErrorMessage error={fieldState.error} />
-              </>
+            // Floating labels rest inside empty text inputs, and sit on the border otherwise
+            const isResting =
+              RESTING_LABEL_TYPES.includes(type) &&
+              !componentProps.placeholder &&
+              componentProps.value === '';
+
+            return renderLabelledControl(
+              name,
+              { ...fieldProps, label: hasOwnLabel ? undefined : fieldProps.label },
+              renderFieldComponent(type, componentProps, fieldConfig),
+              renderFieldMessages(fieldProps.description, fieldConfig.hint, fieldState.error),
+              isResting
             );
           }}
         />
@@ -168,6 +516,88 @@ export function ZodForm<T extends z.ZodTypeAny>({
     );
   };
 
+  // A field's description, hint and error message
+  const renderFieldMessages = (
+    description: string | undefined,
+    hint: string | undefined,
+    error: FieldError | undefined
+  ) => (
+    <>
+      {description && <Description>{description}</Description>}
+      {hint && <Description>{hint}</Description>}
+      <ErrorMessage error={error} />
+    </>
+  );
+
+  // Place a field's label, control and messages for the label position
+  const renderLabelledControl = (
+    name: string,
+    { label, required }: { label?: string; required?: boolean },
+    control: React.ReactNode,
+    messages: React.ReactNode,
+    isResting = false
+  ) => {
+    if (labelPosition === 'left') {
+      return (
+        <div className={themeClasses.labelLayout.left}>
+          {label && (
+            <Label htmlFor={name} required={required} position="left">
+              {label}
+            </Label>
+          )}
+          <div className={themeClasses.labelLayout.leftControl}>
+            {control}
+            {messages}
+          </div>
+        </div>
+      );
+    }
+
+    if (labelPosition === 'floating' && label) {
+      return (
+        <>
+          <div className={themeClasses.labelLayout.floating}>
+            {control}
+            <Label
+              htmlFor={name}
+              required={required}
+              position="floating"
+              className={isResting ? themeClasses.label.resting : undefined}
+            >
+              {label}
+            </Label>
+          </div>
+          {messages}
+        </>
+      );
+    }
+
+    return (
+      <>
+        {label && (
+          <Label htmlFor={name} required={required}>
+            {label}
+          </Label>
+        )}
+        {control}
+        {messages}
+      </>
+    );
+  };
+
+  // Native constraint attributes; without native validation only the ones that shape pickers
+  const getConstraintProps = (schema: AnyZodSchema, type: FieldType, config: FieldConfig) => {
+    const { required, minLength, maxLength, pattern, ...bounds } = getNativeConstraints(
+      schema,
+      type,
+      config
+    );
+
+    return nativeValidation
+      ? { required, minLength, maxLength, pattern, ...bounds }
+      : { required: undefined, 'aria-required': required, ...bounds };
+  };
+
   // Render field component based on type
   const renderFieldComponent = (type: FieldType, props: any, config: any) => {
     switch (type) {
@@ -179,14 +609,12 @@ export function ZodForm<T extends z.ZodTypeAny>({
         return <Input {...props} type={type} />;
 
       case 'number':
-        return (
-          <Input {...props} type="number" min={config.min} max={config.max} step={config.step} />
-        );
+        return <Input {...props} type="number" />;
 
       case 'range':
         return (
           <div className="space-y-2">
-            <Input {...props} type="range" min={config.min} max={config.max} step={config.step} />
+            <Input {...props} type="range" />
             <div className="text-xs text-zf-text-muted text-center">
               {props.value || config.min || 0}
             </div>
@@ -228,7 +656,7 @@ export function ZodForm<T extends z.ZodTypeAny>({
       case 'checkbox':
         return (
           <div className="flex items-center space-x-2">
-            <Checkbox {...props} />
+            <Checkbox {...props} value="true" checked={!!props.value} />
             {props.label && <Label htmlFor={props.name}>{props.label}</Label>}
           </div>
         );
@@ -237,7 +665,7 @@ export function ZodForm<T extends z.ZodTypeAny>({
         return (
           <div className="flex items-center justify-between">
             {props.label && <Label>{props.label}</Label>}
-            <Switch {...props} />
+            <Switch {...props} checked={!!props.value} />
           </div>
         );
 
@@ -260,7 +688,7 @@ export function ZodForm<T extends z.ZodTypeAny>({
             {props.label && <Label>{props.label}</Label>}
             <StarRating
               {...props}
-              maxStars={config.maxStars || 5}
+              maxStars={config.maxStars || config.max || 5}
               allowHalf={config.allowHalf}
               showValue={config.showValue}
             />
@@ -272,38 +700,29 @@ export function ZodForm<T extends z.ZodTypeAny>({
       case 'time':
         return <Input {...props} type={type} />;
 
-      case 'array':
-        return renderArrayField(props.name, config);
-
-      case 'object':
-        return renderObjectField(props.name, config);
-
       default:
         return <Input {...props} type="text" />;
     }
   };
 
-  // Render array field
-  const renderArrayField = (name: string, config: any) => {
-    const arrayField = useArrayField(name, form);
-    const fieldError = (errors as any)[name];
+  // Render array field with items built from the element schema
+  const renderArrayField = (name: string, fieldAnalysis: FieldAnalysis, config: any) => {
+    const elementSchema = getArrayElement(unwrapSchema(fieldAnalysis.schema));
+
+    // Items of a recursive array would have no fields left to render past the maximum depth
+    if (getSchemaKind(elementSchema) === 'lazy' && getPathDepth(name) + 1 >= maxDepth) {
+      return null;
+    }
 
     return (
-      <ArrayField
+      <SchemaArrayField
         name={name}
-        label={config.label || name}
+        form={form}
+        label={config.label}
         description={config.description}
-        error={fieldError}
-        items={arrayField.items}
-        onAdd={() => arrayField.append({})}
-        onRemove={arrayField.remove}
-        onMove={arrayField.move}
-        renderItem={(_item, index) => (
-          <div key={`${name}.${index}`}>
-            {/* Render nested fields based on array item schema */}
-            <Input name={`${name}.${index}`} placeholder={`Item ${index + 1}`} className="w-full" />
-          </div>
-        )}
+        error={get(errors, name)}
+        createItem={() => generateDefaultValue(elementSchema)}
+        renderItem={index => renderArrayItem(name, elementSchema, index)}
         addButtonText={config.addButtonText}
         removeButtonText={config.removeButtonText}
         minItems={config.minItems}
@@ -314,9 +733,331 @@ export function ZodForm<T extends z.ZodTypeAny>({
     );
   };
 
+  // Render a single array item: object elements become a sub-form, everything else one field
+  const renderArrayItem = (name: string, elementSchema: z.ZodTypeAny, index: number) => {
+    const itemField = analyzeField(String(index), elementSchema, name, parseOptions);
+
+    if (itemField.type === 'object') {
+      return (
+        <div className="space-y-4">
+          {sortFields(getObjectFields(itemField), fieldOptions).map(child => renderField(child))}
+        </div>
+      );
+    }
+
+    return renderField({
+      ...itemField,
+      config: { ...itemField.config, label: `Item ${index + 1}` },
+    });
+  };
+
+  // Render discriminated union: a discriminator select plus the active variant's fields
+  const renderDiscriminatedUnionField = (
+    name: string,
+    fieldAnalysis: FieldAnalysis,
+    config: any
+  ) => {
+    const discriminatorPath = `${name}.${config.discriminator}`;
+    const activeVariant = get(formValues, discriminatorPath);
+
+    // Labelled like other fields: field options, then schema metadata, then the key itself
+    const [, firstVariant] = getDiscriminatedVariants(unwrapSchema(fieldAnalysis.schema))[0] ?? [];
+    const discriminatorLabel =
+      fieldOptions[discriminatorPath]?.label ||
+      (firstVariant &&
+        getFieldMetadata(getObjectShape(firstVariant)[config.discriminator], registry).label) ||
+      String(config.discriminator).charAt(0).toUpperCase() + String(config.discriminator).slice(1);
+    const variantFields: Record<string, FieldAnalysis> =
+      activeVariant !== undefined ? config.variants?.[String(activeVariant)] || {} : {};
+
+    // Switching variants replaces the whole value so fields of the old variant are cleared
+    const selectVariant = (rawValue: string) => {
+      const option = (config.options || []).find((opt: any) => String(opt.value) === rawValue);
+      const variantSchema = option
+        ? getDiscriminatedVariant(unwrapSchema(fieldAnalysis.schema), option.value)
+        : undefined;
+
+      setValue(
+        name as Path<FormData<T>>,
+        (variantSchema
+          ? { ...generateDefaultValues(variantSchema), [config.discriminator]: option.value }
+          : undefined) as any,
+        { shouldDirty: true }
+      );
+      clearErrors(name as Path<FormData<T>>);
+    };
+
+    return (
+      <ObjectField
+        name={name}
+        label={config.label || name}
+        description={config.description}
+        collapsible={config.collapsible}
+        defaultExpanded={config.defaultExpanded}
+        showBorder={config.showBorder}
+      >
+        <div className="space-y-4">
+          <div className={themeClasses.fieldContainer}>
+            <Controller
+              name={discriminatorPath as Path<FormData<T>>}
+              control={control}
+              render={({ field, fieldState }) => (
+                <>
+                  <Label htmlFor={discriminatorPath} required={config.required}>
+                    {discriminatorLabel}
+                  </Label>
+                  <Select
+                    {...field}
+                    id={discriminatorPath}
+                    value={field.value ?? ''}
+                    onChange={e => selectVariant(e.target.value)}
+                    options={config.options || []}
+                    emptyOption={config.emptyOption || 'Select an option...'}
+                    error={fieldState.error}
+                    disabled={disabled || loading}
+                  />
+                  <ErrorMessage error={fieldState.error} />
+                </>
+              )}
+            />
+          </div>
+
+          {sortFields(variantFields, fieldOptions).map(child => renderField(child))}
+        </div>
+      </ObjectField>
+    );
+  };
+
+  // Render tuple positions inline, one column per item
+  const renderTupleField = (name: string, config: any) => {
+    const items = Object.values((config.fields || {}) as Record<string, FieldAnalysis>);
+
+    return (
+      <fieldset className="space-y-2">
+        {config.label && (
+          <legend
+            className={cn(themeClasses.label.base, config.required && themeClasses.label.required)}
+          >
+            {config.label}
+          </legend>
+        )}
+        <div
+          className="grid gap-3"
+          style={{ gridTemplateColumns: `repeat(${items.length || 1}, minmax(0, 1fr))` }}
+        >
+          {items.map(item =>
+            renderField({
+              ...item,
+              config: { ...item.config, placeholder: item.config.placeholder || item.config.label },
+            })
+          )}
+        </div>
+        {config.description && <Description>{config.description}</Description>}
+        <ErrorMessage error={get(errors, name)?.message ? get(errors, name) : undefined} />
+      </fieldset>
+    );
+  };
+
+  // Render set as a list of unique values
+  const renderSetField = (name: string, fieldAnalysis: FieldAnalysis, config: any) => {
+    const element = mapZodTypeToFieldType(
+      getValueType(unwrapSchema(fieldAnalysis.schema)),
+      name,
+      parseOptions
+    );
+    const inputType = ['number', 'range'].includes(element.type)
+      ? 'number'
+      : ['email', 'url'].includes(element.type)
+        ? (element.type as 'email' | 'url')
+        : 'text';
+
+    return (
+      <Controller
+        name={name as Path<FormData<T>>}
+        control={control}
+        render={({ field, fieldState }) => (
+          <>
+            {config.label && <Label required={config.required}>{config.label}</Label>}
+            <SetField
+              name={name}
+              label={config.label}
+              placeholder={config.placeholder}
+              description={config.description}
+              value={field.value || []}
+              onChange={field.onChange}
+              options={element.config.options}
+              inputType={inputType}
+              addButtonText={config.addButtonText}
+              maxItems={config.maxItems}
+              error={fieldState.error}
+              disabled={disabled || loading}
+              readOnly={config.readOnly}
+            />
+            <ErrorMessage error={fieldState.error} />
+          </>
+        )}
+      />
+    );
+  };
+
+  // Render record or map as a key/value editor; values use the value schema's field type
+  const renderRecordField = (name: string, fieldAnalysis: FieldAnalysis, config: any) => {
+    const container = unwrapSchema(fieldAnalysis.schema);
+    const keySchema = getKeyType(container);
+    const valueSchema = getValueType(container);
+
+    // Map keys are edited as text, so validate them after converting to the key type
+    const coerceKey =
+      getSchemaKind(container) === 'map'
+        ? (key: string) => coerceMapKey(keySchema, key)
+        : undefined;
+
+    return (
+      <Controller
+        name={name as Path<FormData<T>>}
+        control={control}
+        render={({ field, fieldState }) => (
+          <>
+            <SchemaRecordField
+              name={name}
+              value={field.value}
+              onChange={field.onChange}
+              keySchema={keySchema}
+              coerceKey={coerceKey}
+              onKeyError={message => reportFieldError(name, message)}
+              keyOptions={mapZodTypeToFieldType(keySchema, name, parseOptions).config.options}
+              createValue={() => generateDefaultValue(valueSchema)}
+              renderValue={(entry, onValueChange) =>
+                renderRecordValue(name, valueSchema, entry, onValueChange)
+              }
+              label={config.label}
+              description={config.description}
+              error={fieldState.error}
+              addButtonText={config.addButtonText}
+              removeButtonText={config.removeButtonText}
+              disabled={disabled || loading}
+            />
+            {fieldState.error?.message && <ErrorMessage error={fieldState.error} />}
+          </>
+        )}
+      />
+    );
+  };
+
+  // Render the value editor of a single record entry
+  const renderRecordValue = (
+    name: string,
+    valueSchema: z.ZodTypeAny,
+    entry: { key: string; value: any },
+    onValueChange: (value: any) => void
+  ) => {
+    const valueField = analyzeField(entry.key, valueSchema, name, parseOptions);
+    const valueError = entry.key ? get(errors, valueField.path) : undefined;
+    const codec = getValueCodec(valueSchema, valueField.type);
+
+    return (
+      <>
+        {renderFieldComponent(
+          valueField.type,
+          {
+            // Entries without a key have nowhere to post their value
+            name: entry.key ? valueField.path : undefined,
+            'aria-label': entry.key ? `${entry.key} value` : 'Value',
+            value: codec.format(entry.value),
+            onChange: (event: any) => onValueChange(codec.parse(getEventValue(event))),
+            error: valueError,
+            disabled: disabled || loading,
+            ...getConstraintProps(valueSchema, valueField.type, valueField.config),
+          },
+          valueField.config
+        )}
+        <ErrorMessage error={valueError} />
+      </>
+    );
+  };
+
+  // Render plain union: a member switcher plus the active member's editor
+  const renderUnionField = (name: string, config: any) => {
+    const members: FieldAnalysis[] = config.members || [];
+    const activeIndex =
+      unionSelections[name] ??
+      matchUnionMember(
+        members.map(member => member.schema),
+        get(formValues, name)
+      );
+    const activeMember = members[activeIndex];
+
+    const selectMember = (index: number) => {
+      setUnionSelections(prev => ({ ...prev, [name]: index }));
+      setValue(name as Path<FormData<T>>, generateDefaultValue(members[index].schema), {
+        shouldDirty: true,
+      });
+      clearErrors(name as Path<FormData<T>>);
+    };
+
+    return (
+      <div className="space-y-3">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          {config.label && <Label required={config.required}>{config.label}</Label>}
+          <SegmentedControl
+            aria-label={config.label}
+            options={config.options || []}
+            value={activeIndex}
+            onChange={value => selectMember(Number(value))}
+            disabled={disabled || loading}
+          />
+        </div>
+
+        {activeMember?.type === 'object' ? (
+          <div className="space-y-4">
+            {sortFields(getObjectFields(activeMember), fieldOptions).map(child =>
+              renderField(child)
+            )}
+          </div>
+        ) : (
+          activeMember &&
+          renderField({
+            ...activeMember,
+            config: { ...activeMember.config, label: config.label },
+          })
+        )}
+      </div>
+    );
+  };
+
+  // Nested fields of an object; lazy (recursive) objects are parsed when first rendered
+  const getObjectFields = (fieldAnalysis: FieldAnalysis): Record<string, FieldAnalysis> => {
+    if (fieldAnalysis.config.fields) return fieldAnalysis.config.fields;
+    if (!fieldAnalysis.config.lazy) return {};
+
+    return parseSchema(unwrapSchema(fieldAnalysis.schema), fieldAnalysis.path, parseOptions);
+  };
+
+  // Render a collapsed recursive section as a button that adds it
+  const renderLazyObjectPlaceholder = (name: string, fieldAnalysis: FieldAnalysis, config: any) => (
+    <>
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() =>
+          setValue(
+            name as Path<FormData<T>>,
+            generateDefaultValues(unwrapSchema(fieldAnalysis.schema)) as any,
+            { shouldDirty: true }
+          )
+        }
+        disabled={disabled || loading}
+      >
+        {config.addButtonText || `Add ${config.label}`}
+      </Button>
+      <ErrorMessage error={get(errors, name)} />
+    </>
+  );
+
   // Render object field
-  const renderObjectField = (name: string, config: any) => {
-    const fieldError = (errors as any)[name];
+  const renderObjectField = (name: string, fieldAnalysis: FieldAnalysis, config: any) => {
+    const fieldError = get(errors, name);
 
     return (
       <ObjectField
@@ -330,55 +1071,462 @@ export function ZodForm<T extends z.ZodTypeAny>({
       >
         {/* Render nested object fields */}
         <div className="space-y-4">
-          {Object.entries(config.fields || {}).map(([fieldName, fieldConfig]: [string, any]) => (
-            <div key={fieldName} className="space-y-2">
-              <Label>{fieldConfig?.label || fieldName}</Label>
-              <Input
-                name={`${name}.${fieldName}`}
-                placeholder={fieldConfig?.placeholder}
-                disabled={disabled || loading}
-              />
-            </div>
-          ))}
+          {sortFields(getObjectFields({ ...fieldAnalysis, config }), fieldOptions).map(child =>
+            renderField(child)
+          )}
+
+          {/* Optional recursive sections can be collapsed again */}
+          {config.lazy && !config.required && (
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() =>
+                setValue(name as Path<FormData<T>>, undefined as any, { shouldDirty: true })
+              }
+              disabled={disabled || loading}
+            >
+              {config.removeButtonText || `Remove ${config.label}`}
+            </Button>
+          )}
         </div>
       </ObjectField>
     );
   };
 
+  const renderAllFields = () => (
+    <div {...fieldLayout}>
+      {sortFields(fields, fieldOptions).map(fieldAnalysis => renderField(fieldAnalysis))}
+    </div>
+  );
+
+  const renderFieldPaths = (paths: string[]) =>
+    paths.filter(path => flatFields[path]).map(path => renderField(flatFields[path]));
+
+  const renderTabs = () => (
+    <>
+      {untabbedPaths.length > 0 && <div {...fieldLayout}>{renderFieldPaths(untabbedPaths)}</div>}
+
+      <Tabs
+        activeTab={activeTab}
+        onTabChange={setActiveTab}
+        showAllPanels={!isHydrated}
+        tabs={tabGroups.map(group => ({
+          title: group.title,
+          errorCount: group.fields.reduce(
+            (count, path) => count + countErrors(get(errors, path)),
+            0
+          ),
+          content: (
+            <div className="space-y-4">
+              {group.description && <Description>{group.description}</Description>}
+              <div {...fieldLayout}>{renderFieldPaths(group.fields)}</div>
+            </div>
+          ),
+        }))}
+      />
+    </>
+  );
+
+  const renderSections = () => (
+    <>
+      {sections!.map((section, index) => (
+        <FormSection
+          key={index}
+          title={section.title}
+          description={section.description}
+          collapsible={section.collapsible}
+          defaultExpanded={section.defaultExpanded}
+          errorCount={section.fields.reduce(
+            (count, path) => count + countErrors(get(errors, path)),
+            0
+          )}
+        >
+          <div {...fieldLayout}>{renderFieldPaths(section.fields)}</div>
+        </FormSection>
+      ))}
+
+      {unsectionedPaths.length > 0 && (
+        <div {...fieldLayout}>{renderFieldPaths(unsectionedPaths)}</div>
+      )}
+    </>
+  );
+
+  // One section per wizard step; all steps show until hydration, so the form works without JS
+  const renderSteps = () => {
+    const stepTitles = [
+      ...steps!.map(step => step.title),
+      ...(reviewStep ? [reviewStepTitle] : []),
+    ];
+    const isReviewing = reviewStep && isHydrated && wizard.currentStep === steps!.length;
+
+    return (
+      <>
+        {isHydrated && (
+          <StepIndicator
+            steps={stepTitles.map((title, index) => ({ title, hasError: wizard.hasErrors(index) }))}
+            currentStep={wizard.currentStep}
+            onStepClick={wizard.goTo}
+            disabled={disabled || loading}
+          />
+        )}
+
+        {steps!.map((step, index) => (
+          <section
+            key={index}
+            hidden={isHydrated && index !== wizard.currentStep}
+            className={themeClasses.fieldGroup}
+          >
+            <div>
+              <h2 className="text-lg font-medium text-zf-text">{step.title}</h2>
+              {step.description && <Description>{step.description}</Description>}
+            </div>
+
+            <div {...fieldLayout}>{renderFieldPaths(stepFields[index])}</div>
+          </section>
+        ))}
+
+        {isReviewing && renderReview()}
+      </>
+    );
+  };
+
+  // Read-only summary of each step, with a link back to edit it
+  const renderReview = () => (
+    <section className="space-y-6">
+      <h2 className="text-lg font-medium text-zf-text">{reviewStepTitle}</h2>
+
+      {steps!.map((step, index) => (
+        <div key={index} className="space-y-2">
+          <div className="flex items-center justify-between">
+            <h3 className="text-sm font-medium text-zf-text">{step.title}</h3>
+            <Button type="button" variant="link" onClick={() => wizard.goTo(index)}>
+              Edit<span className="sr-only"> {step.title}</span>
+            </Button>
+          </div>
+
+          <dl className="divide-y divide-zf-border">
+            {stepFields[index]
+              .filter(path => flatFields[path])
+              .map(path => renderReviewItem(flatFields[path]))}
+          </dl>
+        </div>
+      ))}
+    </section>
+  );
+
+  const renderReviewItem = (fieldAnalysis: FieldAnalysis): React.ReactNode => {
+    const name = fieldAnalysis.path;
+    if (visibleFields[name] === false) return null;
+
+    const fieldConfig = { ...fieldAnalysis.config, ...fieldOptions[name] };
+    const label = fieldConfig.label || fieldAnalysis.name;
+
+    if ((fieldConfig.type || fieldAnalysis.type) === 'object' && fieldConfig.fields) {
+      return (
+        <div key={name} className="py-2">
+          <dt className="text-sm font-medium text-zf-text">{label}</dt>
+          <dd>
+            <dl className="pl-4">
+              {sortFields(fieldConfig.fields, fieldOptions).map(renderReviewItem)}
+            </dl>
+          </dd>
+        </div>
+      );
+    }
+
+    return (
+      <div key={name} className="flex justify-between gap-4 py-2 text-sm">
+        <dt className="text-zf-text-muted">{label}</dt>
+        <dd className="text-right text-zf-text">
+          {formatReviewValue(get(formValues, name), fieldConfig)}
+        </dd>
+      </div>
+    );
+  };
+
+  const resetButton = showResetButton && (
+    <Button type="button" variant="outline" onClick={resetForm} disabled={isSubmitting || loading}>
+      {resetButtonText}
+    </Button>
+  );
+
+  const submitButton = showSubmitButton && (
+    <Button type="submit" loading={isSubmitting || loading} disabled={disabled}>
+      {submitButtonText}
+    </Button>
+  );
+
   return (
     <div className={themeConfig.root}>
-      <form className={formClasses} onSubmit={handleSubmit(submitForm)}>
-        {/* Render all fields */}
-        {Object.entries(fields).map(([name, fieldAnalysis]) => renderField(name, fieldAnalysis))}
+      <form
+        ref={formRef}
+        className={formClasses}
+        // React 19 posts to server actions without JavaScript; React 18 only accepts URLs
+        action={
+          typeof action === 'string' || SUPPORTS_FUNCTION_ACTIONS
+            ? (action as string | undefined)
+            : undefined
+        }
+        method={typeof action === 'string' ? 'post' : undefined}
+        onSubmit={handleFormSubmit}
+        noValidate={isHydrated || !nativeValidation}
+      >
+        {/* Render all fields, or one wizard step at a time */}
+        {isWizard
+          ? renderSteps()
+          : hasTabs
+            ? renderTabs()
+            : hasSections
+              ? renderSections()
+              : renderAllFields()}
 
         {/* Custom children */}
         {children}
 
+        {/* Errors about the form as a whole, returned by the action */}
+        {actionState?.formErrors?.map(message => <ErrorMessage key={message} error={message} />)}
+
         {/* Form actions */}
-        {(showSubmitButton || showResetButton) && (
-          <div className="flex items-center justify-end space-x-3 pt-6 border-t border-zf-border">
-            {showResetButton && (
-              <Button
-                type="button"
-                variant="outline"
-                onClick={resetForm}
-                disabled={isSubmitting || loading}
-              >
-                {resetButtonText}
-              </Button>
-            )}
+        {isWizard && isHydrated ? (
+          <div className="flex items-center justify-between pt-6 border-t border-zf-border">
+            <div>
+              {!wizard.isFirstStep && (
+                <Button type="button" variant="outline" onClick={wizard.back} disabled={loading}>
+                  {backButtonText}
+                </Button>
+              )}
+            </div>
 
-            {showSubmitButton && (
-              <Button type="submit" loading={isSubmitting || loading} disabled={disabled}>
-                {submitButtonText}
-              </Button>
-            )}
+            <div className="flex items-center space-x-3">
+              {resetButton}
+              {wizard.isLastStep ? (
+                submitButton
+              ) : (
+                <Button type="button" onClick={wizard.next} disabled={disabled || loading}>
+                  {nextButtonText}
+                </Button>
+              )}
+            </div>
           </div>
+        ) : (
+          (showSubmitButton || showResetButton) && (
+            <div className="flex items-center justify-end space-x-3 pt-6 border-t border-zf-border">
+              {resetButton}
+              {submitButton}
+            </div>
+          )
         )}
       </form>
     </div>
   );
 }
 
+// Whether forms accept server actions (functions) as their `action`, added in React 19
+const SUPPORTS_FUNCTION_ACTIONS = parseInt(React.version, 10) >= 19;
+
+// Nest errors keyed by dotted path into the shape React Hook Form stores
+const toFieldErrors = (fieldErrors: Record<string, string> | undefined) => {
+  if (!fieldErrors) return undefined;
+
+  const errors: FieldErrors = {};
+  Object.entries(fieldErrors).forEach(([path, message]) => {
+    set(errors, path, { type: 'server', message });
+  });
+  return errors;
+};
+
+// Gaps between fields on a grid, and between stacked fields
+const SPACING_CLASSES = {
+  sm: { gap: 'gap-3', stack: 'space-y-3' },
+  md: { gap: 'gap-6', stack: 'space-y-6' },
+  lg: { gap: 'gap-8', stack: 'space-y-8' },
+};
+
+// Field types whose empty input shows nothing, leaving room for a floating label
+const RESTING_LABEL_TYPES: FieldType[] = [
+  'text',
+  'email',
+  'password',
+  'url',
+  'tel',
+  'number',
+  'textarea',
+];
+
+// Field types whose component renders the label itself
+const SELF_LABELLED_TYPES: FieldType[] = ['radio', 'checkbox', 'switch', 'stars'];
+
+// Fields in display order: ascending `order` first, then the rest in declaration order
+const sortFields = (
+  fields: Record<string, FieldAnalysis>,
+  fieldOptions: Record<string, FieldConfig>
+): FieldAnalysis[] => {
+  const getOrder = (field: FieldAnalysis) =>
+    fieldOptions[field.path]?.order ?? field.config.order ?? Number.MAX_SAFE_INTEGER;
+
+  return Object.values(fields).sort((a, b) => getOrder(a) - getOrder(b));
+};
+
+// Fields that no group lists, outermost first. Objects that are listed in part (e.g. by
+// `address.city`) contribute their remaining children (`address.street`) instead.
+const getUnlistedPaths = (
+  fields: Record<string, FieldAnalysis>,
+  fieldOptions: Record<string, FieldConfig>,
+  groups: Array<{ fields: string[] }>
+): string[] => {
+  const listed = groups.flatMap(group => group.fields);
+
+  return sortFields(fields, fieldOptions).flatMap(field => {
+    if (listed.includes(field.path)) return [];
+
+    const isPartlyListed = listed.some(path => path.startsWith(`${field.path}.`));
+    if (isPartlyListed && field.config.fields) {
+      return getUnlistedPaths(field.config.fields, fieldOptions, groups);
+    }
+
+    return isPartlyListed ? [] : [field.path];
+  });
+};
+
+// The number of invalid fields in a (possibly nested) error
+const countErrors = (error: any): number => {
+  if (!error || typeof error !== 'object') return 0;
+  if (typeof error.message === 'string' || typeof error.type === 'string') return 1;
+
+  return Object.values(error).reduce<number>((count, nested) => count + countErrors(nested), 0);
+};
+
+// A value as shown on the wizard's review step
+const formatReviewValue = (value: any, config: FieldConfig): string => {
+  if (value === undefined || value === null || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (value instanceof Date) return value.toLocaleDateString();
+  if (typeof File !== 'undefined' && value instanceof File) return value.name;
+
+  if (Array.isArray(value)) {
+    if (value.some(item => item !== null && typeof item === 'object' && !(item instanceof Date))) {
+      return `${value.length} ${value.length === 1 ? 'item' : 'items'}`;
+    }
+    return value.length ? value.map(item => formatReviewValue(item, config)).join(', ') : '—';
+  }
+
+  if (typeof value === 'object') {
+    const entries = Object.entries(value);
+    return entries.length
+      ? entries
+          .map(([key, entryValue]) => `${key}: ${formatReviewValue(entryValue, {})}`)
+          .join(', ')
+      : '—';
+  }
+
+  const match = config.options?.find(option => option.value === value);
+  return match ? match.label : String(value);
+};
+
+// Extract the value from a change event, or pass plain values through
+const getEventValue = (event: any) =>
+  event?.target
+    ? event.target.type === 'checkbox'
+      ? event.target.checked
+      : event.target.value
+    : event;
+
+interface SchemaRecordFieldProps {
+  name: string;
+  value?: Record<string, any>;
+  onChange: (value: Record<string, any>) => void;
+  keySchema: z.ZodTypeAny;
+  coerceKey?: (key: string) => any;
+  onKeyError?: (message: string | undefined) => void;
+  keyOptions?: Array<{ label: string; value: string | number }>;
+  createValue: () => any;
+  renderValue: (
+    entry: { key: string; value: any },
+    onValueChange: (value: any) => void
+  ) => React.ReactNode;
+  label?: string;
+  description?: string;
+  error?: FieldError;
+  addButtonText?: string;
+  removeButtonText?: string;
+  disabled?: boolean;
+}
+
+/**
+ * Binds a RecordField to a record value, tracking keys being added or renamed
+ */
+function SchemaRecordField({
+  value,
+  onChange,
+  keySchema,
+  coerceKey,
+  onKeyError,
+  createValue,
+  renderValue,
+  ...props
+}: SchemaRecordFieldProps) {
+  const recordField = useRecordField(value, onChange, keySchema, coerceKey, onKeyError);
+
+  return (
+    <RecordField
+      {...props}
+      entries={recordField.entries}
+      onAdd={() => recordField.add(createValue())}
+      onRemove={recordField.remove}
+      onRenameKey={recordField.renameKey}
+      renderValue={(entry, index) =>
+        renderValue(entry, entryValue => recordField.setEntryValue(index, entryValue))
+      }
+    />
+  );
+}
+
+interface SchemaArrayFieldProps {
+  name: string;
+  form: UseFormReturn<any>;
+  label?: string;
+  description?: string;
+  error?: FieldError;
+  createItem: () => any;
+  renderItem: (index: number) => React.ReactNode;
+  addButtonText?: string;
+  removeButtonText?: string;
+  minItems?: number;
+  maxItems?: number;
+  sortable?: boolean;
+  disabled?: boolean;
+}
+
+/**
+ * Binds an ArrayField to the form state at `name`
+ */
+function SchemaArrayField({
+  name,
+  form,
+  error,
+  createItem,
+  renderItem,
+  ...props
+}: SchemaArrayFieldProps) {
+  const arrayField = useArrayField(name, form);
+
+  return (
+    <>
+      <ArrayField
+        {...props}
+        name={name}
+        error={error}
+        items={arrayField.items}
+        onAdd={() => arrayField.append(createItem())}
+        onRemove={arrayField.remove}
+        onMove={arrayField.move}
+        renderItem={(_item, index) => <div key={`${name}.${index}`}>{renderItem(index)}</div>}
+      />
+      {error?.message && <ErrorMessage error={error} />}
+    </>
+  );
+}
+
 // Export default
 export default ZodForm;
@@ -0,0 +1,137 @@
+import React from 'react';
+import { RecordFieldProps } from '../../types/components';
+import { cn, themeClasses } from '../../utils/cn';
+import { Button } from '../ui/Button';
+import { Input } from '../ui/Input';
+import { Select } from '../ui/Select';
+import { ErrorMessage } from '../ui/ErrorMessage';
+
+export const RecordField = React.forwardRef<HTMLDivElement, RecordFieldProps>(
+  (
+    {
+      className,
+      name,
+      label,
+      description,
+      error,
+      entries,
+      onAdd,
+      onRemove,
+      onRenameKey,
+      renderValue,
+      keyOptions,
+      keyPlaceholder = 'Key',
+      addButtonText = 'Add Entry',
+      removeButtonText = 'Remove',
+      disabled,
+      ...props
+    },
+    ref
+  ) => {
+    const hasError = !!error || entries.some(entry => entry.keyError);
+
+    const containerClasses = cn(
+      themeClasses.array.container,
+      hasError && 'border-zf-error',
+      className
+    );
+
+    return (
+      <div ref={ref} className={containerClasses} {...props}>
+        {/* Record Header */}
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            {label && <h3 className="text-sm font-medium text-zf-text">{label}</h3>}
+            {description && <p className="text-xs text-zf-text-muted mt-1">{description}</p>}
+          </div>
+          <span className="text-xs text-zf-text-muted">
+            {entries.length} entr{entries.length !== 1 ? 'ies' : 'y'}
+          </span>
+        </div>
+
+        {/* Record Entries */}
+        <div className="space-y-3">
+          {entries.length === 0 ? (
+            <div className="text-center py-6 text-sm text-zf-text-muted">No entries yet</div>
+          ) : (
+            entries.map((entry, index) => {
+              return (
+                <div key={entry.id} className="flex items-start gap-3">
+                  <div className="w-1/3 space-y-1">
+                    {keyOptions ? (
+                      <Select
+                        aria-label={`${label || name} key ${index + 1}`}
+                        value={entry.key}
+                        onChange={e => onRenameKey(index, e.target.value)}
+                        options={keyOptions}
+                        emptyOption={keyPlaceholder}
+                        error={
+                          entry.keyError ? { type: 'key', message: entry.keyError } : undefined
+                        }
+                        disabled={disabled}
+                      />
+                    ) : (
+                      <Input
+                        aria-label={`${label || name} key ${index + 1}`}
+                        value={entry.key}
+                        onChange={e => onRenameKey(index, e.target.value)}
+                        placeholder={keyPlaceholder}
+                        error={
+                          entry.keyError ? { type: 'key', message: entry.keyError } : undefined
+                        }
+                        disabled={disabled}
+                      />
+                    )}
+                    <ErrorMessage error={entry.keyError} />
+                  </div>
+
+                  <div className="flex-1 space-y-1">{renderValue(entry, index)}</div>
+
+                  {!disabled && (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => onRemove(index)}
+                      className="text-zf-error hover:text-zf-error/80 hover:bg-zf-error/10"
+                      title={removeButtonText}
+                      aria-label={removeButtonText}
+                    >
+                      <svg
+                        className="h-4 w-4"
+                        fill="none"
+                        viewBox="0 0 24 24"
+                        stroke="currentColor"
+                      >
+                        <path
+                          strokeLinecap="round"
+                          strokeLinejoin="round"
+                          strokeWidth={2}
+                          d="M6 18L18 6M6 6l12 12"
+                        />
+                      </svg>
+                    </Button>
+                  )}
+                </div>
+              );
+            })
+          )}
+        </div>
+
+        {/* Add Button */}
+        {!disabled && (
+          <Button
+            type="button"
+            variant="outline"
+            onClick={onAdd}
+            className={cn(themeClasses.array.addButton, 'mt-4')}
+          >
+            {addButtonText}
+          </Button>
+        )}
+      </div>
+    );
+  }
+);
+
+RecordField.displayName = 'RecordField';
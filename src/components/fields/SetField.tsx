@@ -0,0 +1,151 @@
+import React, { useState } from 'react';
+import { SetFieldProps } from '../../types/components';
+import { cn, themeClasses } from '../../utils/cn';
+import { Button } from '../ui/Button';
+import { Input } from '../ui/Input';
+import { Select } from '../ui/Select';
+import { ErrorMessage } from '../ui/ErrorMessage';
+
+export const SetField = React.forwardRef<HTMLDivElement, SetFieldProps>(
+  (
+    {
+      className,
+      name,
+      label,
+      placeholder,
+      description,
+      error,
+      value = [],
+      onChange,
+      options,
+      inputType = 'text',
+      addButtonText = 'Add',
+      maxItems,
+      disabled,
+      readOnly,
+      'data-testid': dataTestId,
+    },
+    ref
+  ) => {
+    const [draft, setDraft] = useState('');
+    const [duplicate, setDuplicate] = useState(false);
+    const canAdd = !disabled && !readOnly && (!maxItems || value.length < maxItems);
+
+    const addDraft = () => {
+      if (draft.trim() === '') return;
+
+      const item = options
+        ? options.find(option => String(option.value) === draft)?.value
+        : inputType === 'number'
+          ? Number(draft)
+          : draft.trim();
+      if (item === undefined) return;
+
+      if (value.includes(item)) {
+        setDuplicate(true);
+        return;
+      }
+
+      onChange?.([...value, item]);
+      setDraft('');
+      setDuplicate(false);
+    };
+
+    const removeItem = (item: string | number) => {
+      onChange?.(value.filter(existing => existing !== item));
+    };
+
+    const labelFor = (item: string | number) =>
+      options?.find(option => option.value === item)?.label ?? String(item);
+
+    return (
+      <div
+        ref={ref}
+        className={cn('space-y-2', className)}
+        role="group"
+        aria-label={label || name}
+        data-testid={dataTestId}
+      >
+        {description && <p className="text-xs text-zf-text-muted">{description}</p>}
+
+        {/* Chips */}
+        {value.length > 0 && (
+          <ul className="flex flex-wrap gap-2">
+            {value.map(item => (
+              <li
+                key={String(item)}
+                className={cn(
+                  'inline-flex items-center gap-1 rounded-full border border-zf-border bg-zf-surface px-3 py-1 text-sm text-zf-text',
+                  !!error && 'border-zf-error'
+                )}
+              >
+                {labelFor(item)}
+                {/* Each value posts under the set's name, as a group of checkboxes would */}
+                <input type="hidden" name={name} value={String(item)} />
+                {!disabled && !readOnly && (
+                  <button
+                    type="button"
+                    className="text-zf-text-muted hover:text-zf-error"
+                    onClick={() => removeItem(item)}
+                    aria-label={`Remove ${labelFor(item)}`}
+                  >
+                    ×
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {/* New value */}
+        {canAdd && (
+          <div className="flex items-start gap-2">
+            <div className="flex-1">
+              {options ? (
+                <Select
+                  aria-label={`New ${label || name}`}
+                  value={draft}
+                  onChange={e => {
+                    setDraft(e.target.value);
+                    setDuplicate(false);
+                  }}
+                  options={options.filter(option => !value.includes(option.value))}
+                  emptyOption={placeholder || 'Select a value...'}
+                />
+              ) : (
+                <Input
+                  aria-label={`New ${label || name}`}
+                  type={inputType}
+                  value={draft}
+                  placeholder={placeholder}
+                  onChange={e => {
+                    setDraft(e.target.value);
+                    setDuplicate(false);
+                  }}
+                  onKeyDown={e => {
+                    if (e.key === 'Enter') {
+                      e.preventDefault();
+                      addDraft();
+                    }
+                  }}
+                />
+              )}
+            </div>
+            <Button type="button" variant="outline" onClick={addDraft}>
+              {addButtonText}
+            </Button>
+          </div>
+        )}
+
+        {duplicate && <ErrorMessage error="This value has already been added" />}
+        {!canAdd && maxItems && value.length >= maxItems && (
+          <p className={cn(themeClasses.description.base, 'text-xs')}>
+            Maximum {maxItems} values allowed
+          </p>
+        )}
+      </div>
+    );
+  }
+);
+
+SetField.displayName = 'SetField';
@@ -1,3 +1,5 @@
 // Complex Field Components
 export { ArrayField } from './ArrayField';
 export { ObjectField } from './ObjectField';
+export { RecordField } from './RecordField';
+export { SetField } from './SetField';
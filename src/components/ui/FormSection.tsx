@@ -0,0 +1,78 @@
+import React, { useId, useState } from 'react';
+import { FormSectionProps } from '../../types/components';
+import { cn, themeClasses } from '../../utils/cn';
+
+export const FormSection = React.forwardRef<HTMLFieldSetElement, FormSectionProps>(
+  (
+    {
+      className,
+      title,
+      description,
+      collapsible = false,
+      defaultExpanded = true,
+      errorCount = 0,
+      children,
+      ...props
+    },
+    ref
+  ) => {
+    const [isExpanded, setIsExpanded] = useState(defaultExpanded);
+    const contentId = useId();
+    const isCollapsed = collapsible && !isExpanded;
+
+    const errorBadge = isCollapsed && errorCount > 0 && (
+      <span className={themeClasses.section.errorBadge}>
+        {errorCount} {errorCount === 1 ? 'error' : 'errors'}
+      </span>
+    );
+
+    return (
+      <fieldset ref={ref} className={cn(themeClasses.section.container, className)} {...props}>
+        {title && (
+          <legend className={themeClasses.section.legend}>
+            {collapsible ? (
+              <button
+                type="button"
+                className="flex items-center gap-2 focus:outline-none focus:ring-2 focus:ring-zf-primary rounded"
+                aria-expanded={isExpanded}
+                aria-controls={contentId}
+                onClick={() => setIsExpanded(!isExpanded)}
+              >
+                <svg
+                  className={cn(
+                    'h-4 w-4 transition-transform duration-200',
+                    !isExpanded && '-rotate-90'
+                  )}
+                  fill="none"
+                  viewBox="0 0 24 24"
+                  stroke="currentColor"
+                  aria-hidden="true"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M19 9l-7 7-7-7"
+                  />
+                </svg>
+                {title}
+                {errorBadge}
+              </button>
+            ) : (
+              title
+            )}
+          </legend>
+        )}
+
+        {description && !isCollapsed && <p className="text-sm text-zf-text-muted">{description}</p>}
+
+        {/* Collapsed fields stay mounted, keeping their values and posting with the form */}
+        <div id={contentId} hidden={isCollapsed} className={themeClasses.section.content}>
+          {children}
+        </div>
+      </fieldset>
+    );
+  }
+);
+
+FormSection.displayName = 'FormSection';
@@ -10,7 +10,8 @@ export const Label = React.forwardRef<HTMLLabelElement, LabelProps>(
         className={cn(
           themeClasses.label.base,
           required && themeClasses.label.required,
-          position === 'floating' && 'absolute -top-2 left-2 bg-zf-surface px-1 text-xs',
+          position === 'left' && themeClasses.label.left,
+          position === 'floating' && themeClasses.label.floating,
           size === 'sm' && 'text-xs',
           size === 'lg' && 'text-base',
           className
@@ -0,0 +1,39 @@
+import React from 'react';
+import { SegmentedControlProps } from '../../types/components';
+import { cn, themeClasses } from '../../utils/cn';
+
+export const SegmentedControl = React.forwardRef<HTMLDivElement, SegmentedControlProps>(
+  ({ className, options, value, onChange, disabled, ...props }, ref) => {
+    return (
+      <div
+        ref={ref}
+        className={cn(themeClasses.segmented.container, className)}
+        role="radiogroup"
+        {...props}
+      >
+        {options.map(option => {
+          const isActive = option.value === value;
+
+          return (
+            <button
+              key={String(option.value)}
+              type="button"
+              role="radio"
+              aria-checked={isActive}
+              disabled={disabled || option.disabled}
+              className={cn(
+                themeClasses.segmented.option,
+                isActive && themeClasses.segmented.active
+              )}
+              onClick={() => !isActive && onChange?.(option.value)}
+            >
+              {option.label}
+            </button>
+          );
+        })}
+      </div>
+    );
+  }
+);
+
+SegmentedControl.displayName = 'SegmentedControl';
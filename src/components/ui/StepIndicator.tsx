@@ -0,0 +1,45 @@
+import React from 'react';
+import { StepIndicatorProps } from '../../types/components';
+import { cn, themeClasses } from '../../utils/cn';
+
+export const StepIndicator = React.forwardRef<HTMLElement, StepIndicatorProps>(
+  ({ className, steps, currentStep, onStepClick, disabled, ...props }, ref) => {
+    return (
+      <nav ref={ref} aria-label="Progress" className={cn('space-y-3', className)} {...props}>
+        <p className="text-sm text-zf-text-muted">
+          Step {currentStep + 1} of {steps.length}
+        </p>
+
+        <ol className={themeClasses.steps.list}>
+          {steps.map((step, index) => {
+            const isCurrent = index === currentStep;
+            const isComplete = index < currentStep;
+
+            return (
+              <li key={index} className="flex-1">
+                <button
+                  type="button"
+                  aria-current={isCurrent ? 'step' : undefined}
+                  disabled={disabled}
+                  className={cn(
+                    themeClasses.steps.step,
+                    isComplete && themeClasses.steps.complete,
+                    isCurrent && themeClasses.steps.current,
+                    step.hasError && themeClasses.steps.error
+                  )}
+                  onClick={() => !isCurrent && onStepClick?.(index)}
+                >
+                  <span className="text-xs font-medium">{index + 1}</span>
+                  <span className="text-sm">{step.title}</span>
+                  {step.hasError && <span className="sr-only">(has errors)</span>}
+                </button>
+              </li>
+            );
+          })}
+        </ol>
+      </nav>
+    );
+  }
+);
+
+StepIndicator.displayName = 'StepIndicator';
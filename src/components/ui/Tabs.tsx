@@ -0,0 +1,84 @@
+import React, { useId, useRef } from 'react';
+import { TabsProps } from '../../types/components';
+import { cn, themeClasses } from '../../utils/cn';
+
+export const Tabs = React.forwardRef<HTMLDivElement, TabsProps>(
+  ({ className, tabs, activeTab, onTabChange, showAllPanels = false, ...props }, ref) => {
+    const id = useId();
+    const tabRefs = useRef<Array<HTMLButtonElement | null>>([]);
+
+    // Arrow keys, Home and End move between tabs
+    const handleKeyDown = (event: React.KeyboardEvent) => {
+      const last = tabs.length - 1;
+      const targets: Record<string, number> = {
+        ArrowRight: activeTab === last ? 0 : activeTab + 1,
+        ArrowLeft: activeTab === 0 ? last : activeTab - 1,
+        Home: 0,
+        End: last,
+      };
+      const target = targets[event.key];
+      if (target === undefined) return;
+
+      event.preventDefault();
+      onTabChange?.(target);
+      tabRefs.current[target]?.focus();
+    };
+
+    return (
+      <div ref={ref} className={className} {...props}>
+        {!showAllPanels && (
+          <div role="tablist" className={themeClasses.tabs.list} onKeyDown={handleKeyDown}>
+            {tabs.map((tab, index) => {
+              const isActive = index === activeTab;
+              const errorCount = tab.errorCount ?? 0;
+
+              return (
+                <button
+                  key={index}
+                  ref={element => {
+                    tabRefs.current[index] = element;
+                  }}
+                  id={`${id}-tab-${index}`}
+                  type="button"
+                  role="tab"
+                  aria-selected={isActive}
+                  aria-controls={`${id}-panel-${index}`}
+                  tabIndex={isActive ? 0 : -1}
+                  className={cn(themeClasses.tabs.tab, isActive && themeClasses.tabs.active)}
+                  onClick={() => !isActive && onTabChange?.(index)}
+                >
+                  {tab.title}
+                  {errorCount > 0 && (
+                    <span className={themeClasses.tabs.errorBadge}>
+                      {errorCount}
+                      <span className="sr-only"> {errorCount === 1 ? 'error' : 'errors'}</span>
+                    </span>
+                  )}
+                </button>
+              );
+            })}
+          </div>
+        )}
+
+        {/* Inactive panels stay mounted, keeping their values and posting with the form */}
+        {tabs.map((tab, index) => (
+          <div
+            key={index}
+            id={`${id}-panel-${index}`}
+            role={showAllPanels ? undefined : 'tabpanel'}
+            aria-labelledby={showAllPanels ? undefined : `${id}-tab-${index}`}
+            hidden={!showAllPanels && index !== activeTab}
+            className={themeClasses.tabs.panel}
+          >
+            {showAllPanels && (
+              <h2 className="mb-4 text-lg font-medium text-zf-text">{tab.title}</h2>
+            )}
+            {tab.content}
+          </div>
+        ))}
+      </div>
+    );
+  }
+);
+
+Tabs.displayName = 'Tabs';
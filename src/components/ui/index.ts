@@ -7,8 +7,12 @@ export { Textarea } from './Textarea';
 export { Select } from './Select';
 export { Checkbox } from './Checkbox';
 export { RadioGroup } from './RadioGroup';
+export { SegmentedControl } from './SegmentedControl';
 export { Button } from './Button';
 export { Switch } from './Switch';
+export { StepIndicator } from './StepIndicator';
+export { FormSection } from './FormSection';
+export { Tabs } from './Tabs';
 
 // Enhanced Components
 export { StarRating } from './StarRating';
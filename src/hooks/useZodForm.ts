@@ -1,23 +1,56 @@
-import { useForm, UseFormProps, UseFormReturn, DefaultValues } from 'react-hook-form';
+import {
+  useForm,
+  UseFormProps,
+  UseFormReturn,
+  DefaultValues,
+  Resolver,
+  FieldError,
+  FieldErrors,
+  Path,
+  get,
+  set,
+} from 'react-hook-form';
+import { toNestErrors, validateFieldsNatively } from '@hookform/resolvers';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
-import { useMemo, useCallback } from 'react';
-import { ZodFormConfig, FormData, FieldAnalysis, SchemaAnalysis } from '../types';
+import { useMemo, useCallback, useState, useEffect, useRef } from 'react';
+import {
+  ZodFormConfig,
+  FormData,
+  FieldAnalysis,
+  SchemaAnalysis,
+  AnyZodSchema,
+  FieldMetadataRegistry,
+  FieldMapperEntry,
+} from '../types';
 import {
   parseSchema,
+  flattenFields,
+  unwrapSchema,
   analyzeSchema,
   generateDefaultValues,
   validateWithSchema,
 } from '../utils/schema-parser';
+import { toSchemaValues, toFormValues } from '../utils/form-values';
+import {
+  isZod4Schema,
+  getSchemaKind,
+  getArrayElement,
+  getObjectShape,
+  getIssues,
+} from '../utils/zod-introspection';
 
-interface UseZodFormOptions<T extends z.ZodTypeAny>
+interface UseZodFormOptions<T extends AnyZodSchema>
   extends Omit<UseFormProps<FormData<T>>, 'resolver'> {
   schema: T;
   onSubmit?: (data: FormData<T>) => void | Promise<void>;
   onError?: (errors: any) => void;
+  maxDepth?: number;
+  registry?: FieldMetadataRegistry;
+  fieldMappers?: FieldMapperEntry[];
 }
 
-interface UseZodFormReturn<T extends z.ZodTypeAny> extends UseFormReturn<FormData<T>> {
+interface UseZodFormReturn<T extends AnyZodSchema> extends UseFormReturn<FormData<T>> {
   schema: T;
   fields: Record<string, FieldAnalysis>;
   schemaAnalysis: SchemaAnalysis;
@@ -26,31 +59,65 @@ interface UseZodFormReturn<T extends z.ZodTypeAny> extends UseFormReturn<FormDat
   resetForm: () => void;
   validateField: (name: string, value: any) => Promise<string | undefined>;
   getFieldConfig: (name: string) => FieldAnalysis | undefined;
+  reportFieldError: (name: string, message: string | undefined) => void;
 }
 
-export function useZodForm<T extends z.ZodTypeAny>({
+export function useZodForm<T extends AnyZodSchema>({
   schema,
   onSubmit,
   onError,
   defaultValues,
   mode = 'onChange',
+  maxDepth,
+  registry,
+  fieldMappers,
   ...formOptions
 }: UseZodFormOptions<T>): UseZodFormReturn<T> {
   // Generate default values from schema if not provided
   const computedDefaultValues = useMemo(() => {
-    if (defaultValues) return defaultValues;
+    if (defaultValues) return toFormValues(schema, defaultValues);
     return generateDefaultValues(schema);
   }, [schema, defaultValues]);
 
   // Parse schema into field definitions
-  const fields = useMemo(() => parseSchema(schema), [schema]);
+  const fields = useMemo(
+    () => parseSchema(schema, '', { maxDepth, registry, fieldMappers }),
+    [schema, maxDepth, registry, fieldMappers]
+  );
+
+  // Index every field in the tree by its dotted path
+  const flatFields = useMemo(() => flattenFields(fields), [fields]);
 
   // Analyze schema complexity and features
   const schemaAnalysis = useMemo(() => analyzeSchema(schema), [schema]);
 
+  // Errors that editors find in input the form value can't hold (e.g. duplicate record
+  // keys), by field path
+  const reportedErrors = useRef<Record<string, string>>({});
+
+  // Validate against the schema's own value shapes (e.g. real Sets and Maps)
+  const resolver = useMemo<Resolver<FormData<T>>>(() => {
+    const validate = isZod4Schema(schema)
+      ? zod4Resolver(schema)
+      : zodResolver(schema as z.ZodTypeAny);
+
+    return async (values, context, options) => {
+      const result = await validate(toSchemaValues(schema, values), context, options);
+      const reported = Object.entries(reportedErrors.current);
+      if (!reported.length) return result;
+
+      // Reported errors fail validation too, so they block submission
+      const errors = { ...result.errors };
+      reported.forEach(([name, message]) => {
+        if (!get(errors, name)) set(errors, name, { type: 'validate', message });
+      });
+      return { values: {}, errors };
+    };
+  }, [schema]);
+
   // Initialize React Hook Form with Zod resolver
   const form = useForm<FormData<T>>({
-    resolver: zodResolver(schema),
+    resolver,
     defaultValues: computedDefaultValues as DefaultValues<FormData<T>>,
     mode,
     ...formOptions,
@@ -62,6 +129,8 @@ export function useZodForm<T extends z.ZodTypeAny>({
     reset,
     trigger,
     getValues,
+    setError,
+    clearErrors,
   } = form;
 
   // Submit handler
@@ -118,9 +187,26 @@ export function useZodForm<T extends z.ZodTypeAny>({
   // Get field configuration
   const getFieldConfig = useCallback(
     (name: string): FieldAnalysis | undefined => {
-      return fields[name];
+      return flatFields[name];
+    },
+    [flatFields]
+  );
+
+  // Report (or, without a message, clear) an error on a field until it is fixed
+  const reportFieldError = useCallback(
+    (name: string, message: string | undefined) => {
+      if (reportedErrors.current[name] === message) return;
+
+      const fieldPath = name as Path<FormData<T>>;
+      if (message) {
+        reportedErrors.current[name] = message;
+        setError(fieldPath, { type: 'validate', message });
+      } else {
+        delete reportedErrors.current[name];
+        clearErrors(fieldPath);
+      }
     },
-    [fields]
+    [setError, clearErrors]
   );
 
   return {
@@ -133,16 +219,48 @@ export function useZodForm<T extends z.ZodTypeAny>({
     resetForm,
     validateField,
     getFieldConfig,
+    reportFieldError,
+  };
+}
+
+// Resolver for Zod 4 schemas, whose errors the installed zodResolver doesn't recognize
+function zod4Resolver(schema: AnyZodSchema): Resolver<any> {
+  return async (values, _context, options) => {
+    const result = await (schema as z.ZodTypeAny).safeParseAsync(values);
+
+    if (result.success) {
+      options.shouldUseNativeValidation && validateFieldsNatively({}, options);
+      return { values: result.data, errors: {} };
+    }
+
+    const errors: Record<string, FieldError> = {};
+    getIssues(result.error).forEach(issue => {
+      const path = issue.path.join('.');
+      errors[path] = errors[path] || { message: issue.message, type: issue.code };
+    });
+
+    return { values: {}, errors: toNestErrors(errors, options) };
   };
 }
 
-// Helper function to extract field schema from object schema
-function getFieldSchema(schema: z.ZodTypeAny, fieldName: string): z.ZodTypeAny | undefined {
-  if (schema instanceof z.ZodObject) {
-    const shape = schema._def.shape();
-    return shape[fieldName];
+// Helper function to extract a field schema from an object schema by dotted path
+function getFieldSchema(schema: AnyZodSchema, fieldName: string): z.ZodTypeAny | undefined {
+  let current: AnyZodSchema | undefined = schema;
+
+  for (const segment of fieldName.split('.')) {
+    if (!current) return undefined;
+    current = unwrapSchema(current);
+
+    if (getSchemaKind(current) === 'array' && /^\d+$/.test(segment)) {
+      current = getArrayElement(current);
+    } else if (getSchemaKind(current) === 'object') {
+      current = getObjectShape(current)[segment];
+    } else {
+      return undefined;
+    }
   }
-  return undefined;
+
+  return current as z.ZodTypeAny | undefined;
 }
 
 // Hook for conditional field visibility
@@ -164,7 +282,7 @@ export function useConditionalFields(
         value: expectedValue,
         operator = 'equals',
       } = field.config.showWhen;
-      const actualValue = formValues[dependentField];
+      const actualValue = get(formValues, dependentField);
 
       let isVisible = false;
 
@@ -197,6 +315,71 @@ export function useConditionalFields(
   }, [fields, formValues]);
 }
 
+// Hook for moving through groups of fields, validating each group before moving past it
+export function useFormSteps(stepFields: string[][], form: UseFormReturn<any>) {
+  const {
+    trigger,
+    formState: { errors, submitCount },
+  } = form;
+  const [currentStep, setCurrentStep] = useState(0);
+  const lastStep = stepFields.length - 1;
+
+  const validateStep = useCallback(
+    async (index: number) => {
+      const names = stepFields[index] || [];
+      return names.length === 0 || trigger(names, { shouldFocus: true });
+    },
+    [stepFields, trigger]
+  );
+
+  // Earlier steps can be revisited freely; moving forward validates every step passed
+  const goTo = useCallback(
+    async (target: number) => {
+      const step = Math.max(0, Math.min(target, lastStep));
+
+      for (let index = currentStep; index < step; index++) {
+        if (!(await validateStep(index))) {
+          setCurrentStep(index);
+          return false;
+        }
+      }
+
+      setCurrentStep(step);
+      return true;
+    },
+    [currentStep, lastStep, validateStep]
+  );
+
+  const hasErrors = (index: number, fieldErrors: FieldErrors = errors) =>
+    stepFields[index].some(name => !!get(fieldErrors, name));
+
+  const showFirstError = (fieldErrors: FieldErrors = errors) => {
+    const firstInvalid = stepFields.findIndex((_, index) => hasErrors(index, fieldErrors));
+    if (firstInvalid !== -1) setCurrentStep(firstInvalid);
+  };
+
+  // The effect reads this through a ref, so it runs after submits only rather than on
+  // every change of the errors
+  const latestShowFirstError = useRef(showFirstError);
+  latestShowFirstError.current = showFirstError;
+
+  // After a failed submit, show the first step with an error
+  useEffect(() => {
+    if (submitCount > 0) latestShowFirstError.current();
+  }, [submitCount]);
+
+  return {
+    currentStep,
+    isFirstStep: currentStep === 0,
+    isLastStep: currentStep === lastStep,
+    next: () => goTo(currentStep + 1),
+    back: () => goTo(currentStep - 1),
+    goTo,
+    hasErrors,
+    showFirstError,
+  };
+}
+
 // Hook for managing array fields
 export function useArrayField<T = any>(name: string, form: UseFormReturn<any>) {
   const { control, getValues, setValue, trigger } = form;
@@ -236,9 +419,121 @@ export function useArrayField<T = any>(name: string, form: UseFormReturn<any>) {
   const items = getValues(name) || [];
 
   return {
-    items: items.map((item: T, index: number) => ({ id: `${name}-${index}`, ...item })),
+    items: items.map((item: T, index: number) =>
+      item !== null && typeof item === 'object'
+        ? { id: `${name}-${index}`, ...item }
+        : { id: `${name}-${index}`, value: item }
+    ),
     append,
     remove,
     move,
   };
 }
+
+interface RecordEntry {
+  id: string;
+  key: string;
+  value: any;
+}
+
+// Hook for editing a record value as an ordered list of key/value entries
+export function useRecordField(
+  value: Record<string, any> | undefined,
+  onChange: (value: Record<string, any>) => void,
+  keySchema?: AnyZodSchema,
+  coerceKey?: (key: string) => any,
+  onKeyError?: (message: string | undefined) => void
+) {
+  const nextId = useRef(0);
+  const lastWritten = useRef(value);
+
+  // Callers may pass a new callback on every render; only the latest is called
+  const latestOnKeyError = useRef(onKeyError);
+  latestOnKeyError.current = onKeyError;
+
+  const toEntries = useCallback(
+    (record: Record<string, any> | undefined): RecordEntry[] =>
+      Object.entries(record || {}).map(([key, entryValue]) => ({
+        id: `entry-${nextId.current++}`,
+        key,
+        value: entryValue,
+      })),
+    []
+  );
+
+  const [entries, setEntries] = useState<RecordEntry[]>(() => toEntries(value));
+
+  // Re-sync when the value is replaced from outside, e.g. by a form reset. The form stores
+  // a copy of what we write, so compare by content rather than identity.
+  useEffect(() => {
+    if (JSON.stringify(value ?? {}) !== JSON.stringify(lastWritten.current ?? {})) {
+      lastWritten.current = value;
+      setEntries(toEntries(value));
+      latestOnKeyError.current?.(undefined);
+    }
+  }, [value, toEntries]);
+
+  // Entries with an empty or duplicate key are kept in the editor but not written to the
+  // form, so they are reported through `onKeyError` instead
+  const commit = (nextEntries: RecordEntry[]) => {
+    const record: Record<string, any> = {};
+
+    nextEntries.forEach(entry => {
+      if (entry.key !== '' && !Object.prototype.hasOwnProperty.call(record, entry.key)) {
+        record[entry.key] = entry.value;
+      }
+    });
+
+    setEntries(nextEntries);
+    lastWritten.current = record;
+    onChange(record);
+    onKeyError?.(
+      nextEntries.some(entry => entry.key === '')
+        ? 'Every entry needs a key'
+        : nextEntries.length > Object.keys(record).length
+          ? 'Keys must be unique'
+          : undefined
+    );
+  };
+
+  const add = (entryValue: any) => {
+    commit([...entries, { id: `entry-${nextId.current++}`, key: '', value: entryValue }]);
+  };
+
+  const remove = (index: number) => {
+    commit(entries.filter((_, i) => i !== index));
+  };
+
+  const renameKey = (index: number, key: string) => {
+    commit(entries.map((entry, i) => (i === index ? { ...entry, key } : entry)));
+  };
+
+  const setEntryValue = (index: number, entryValue: any) => {
+    commit(entries.map((entry, i) => (i === index ? { ...entry, value: entryValue } : entry)));
+  };
+
+  const getKeyError = (entry: RecordEntry, index: number): string | undefined => {
+    if (entry.key === '') return undefined;
+
+    if (entries.findIndex(other => other.key === entry.key) !== index) {
+      return 'Duplicate key';
+    }
+
+    const result = (keySchema as z.ZodTypeAny | undefined)?.safeParse(
+      coerceKey ? coerceKey(entry.key) : entry.key
+    );
+    if (result && !result.success) {
+      return getIssues(result.error)[0]?.message;
+    }
+
+    return undefined;
+  };
+
+  return {
+    entries: entries.map((entry, index) => ({ ...entry, keyError: getKeyError(entry, index) })),
+    add,
+    remove,
+    renameKey,
+    setEntryValue,
+  };
+}
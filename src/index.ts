@@ -3,7 +3,13 @@ export { ZodForm as default, ZodForm } from './components/ZodForm';
 export { SimpleZodForm } from './components/SimpleZodForm';
 
 // Hooks
-export { useZodForm, useConditionalFields, useArrayField } from './hooks/useZodForm';
+export {
+  useZodForm,
+  useConditionalFields,
+  useArrayField,
+  useRecordField,
+  useFormSteps,
+} from './hooks/useZodForm';
 
 // UI Components
 export * from './components/ui';
@@ -17,13 +23,59 @@ export * from './types';
 // Utilities
 export {
   parseSchema,
+  flattenFields,
+  unwrapSchema,
+  getPathDepth,
+  DEFAULT_MAX_DEPTH,
   analyzeSchema,
+  generateDefaultValue,
   generateDefaultValues,
   validateWithSchema,
   mapZodTypeToFieldType,
+  matchUnionMember,
   extractValidationRules,
 } from './utils/schema-parser';
 
+export { toSchemaValues, toFormValues } from './utils/form-values';
+export { toFormData, fromFormData } from './utils/form-data';
+
+export { generateMockData } from './utils/mock-data';
+
+export { createZodFormAction, initialActionState } from './utils/form-action';
+
+export { fromJsonSchema, parseJsonSchema } from './utils/json-schema';
+export type { JsonSchema, JsonSchemaObject, JsonSchemaType } from './utils/json-schema';
+
+export { toFormSpec, fromFormSpec, FORM_SPEC_VERSION } from './utils/form-spec';
+export type {
+  FormSpec,
+  FormSpecOptions,
+  FieldSpec,
+  SchemaSpec,
+  SpecKind,
+  ValidationRuleSpec,
+} from './utils/form-spec';
+
+export { getValueCodec } from './utils/value-codecs';
+export type { ValueCodec } from './utils/value-codecs';
+
+export { getNativeConstraints, toNativePattern } from './utils/native-constraints';
+export type { NativeConstraints } from './utils/native-constraints';
+
+export { withField, getFieldMetadata } from './utils/field-metadata';
+
+export { registerFieldMapper } from './utils/field-mappers';
+
+export {
+  createNameRuleMappers,
+  createSimpleFormMappers,
+  DEFAULT_NAME_RULES,
+} from './utils/field-heuristics';
+export type { FieldNameRule } from './utils/field-heuristics';
+
+export { isZod4Schema, getSchemaKind, getChecks, getEnumValues } from './utils/zod-introspection';
+export type { SchemaKind, SchemaCheck } from './utils/zod-introspection';
+
 export { cn, themeClasses, getThemeClasses } from './utils/cn';
 
 // Firebase exports
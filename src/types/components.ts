@@ -21,10 +21,10 @@ export interface BaseFieldProps {
   'data-testid'?: string;
 }
 
-// Input Component Props
+// Input Component Props (inputs without a name edit helper state and aren't posted)
 export interface InputProps
-  extends BaseFieldProps,
-    Omit<InputHTMLAttributes<HTMLInputElement>, 'name' | 'className'> {
+  extends Omit<BaseFieldProps, 'name'>,
+    Omit<InputHTMLAttributes<HTMLInputElement>, 'className'> {
   leftIcon?: ReactNode;
   rightIcon?: ReactNode;
   leftAddon?: ReactNode;
@@ -42,10 +42,10 @@ export interface TextareaProps
   onDocumentUpload?: (text: string) => void;
 }
 
-// Select Component Props
+// Select Component Props (selects without a name edit helper state and aren't posted)
 export interface SelectProps
-  extends BaseFieldProps,
-    Omit<SelectHTMLAttributes<HTMLSelectElement>, 'name' | 'className'> {
+  extends Omit<BaseFieldProps, 'name'>,
+    Omit<SelectHTMLAttributes<HTMLSelectElement>, 'className'> {
   options: Array<{
     label: string;
     value: string | number;
@@ -71,6 +71,19 @@ export interface RadioGroupProps extends BaseFieldProps {
   onChange?: (value: string | number) => void;
 }
 
+// Segmented Control Props
+export interface SegmentedControlProps
+  extends Omit<HTMLAttributes<HTMLDivElement>, 'onChange' | 'defaultValue'> {
+  options: Array<{
+    label: string;
+    value: string | number;
+    disabled?: boolean;
+  }>;
+  value?: string | number;
+  onChange?: (value: string | number) => void;
+  disabled?: boolean;
+}
+
 // Checkbox Props
 export interface CheckboxProps
   extends BaseFieldProps,
@@ -164,6 +177,29 @@ export interface ArrayFieldProps extends BaseFieldProps {
   collapsible?: boolean;
 }
 
+// Record Field Props
+export interface RecordFieldProps extends BaseFieldProps {
+  entries: Array<{ id: string; key: string; keyError?: string; [key: string]: any }>;
+  onAdd: () => void;
+  onRemove: (index: number) => void;
+  onRenameKey: (index: number, key: string) => void;
+  renderValue: (entry: any, index: number) => ReactNode;
+  keyOptions?: Array<{ label: string; value: string | number }>;
+  keyPlaceholder?: string;
+  addButtonText?: string;
+  removeButtonText?: string;
+}
+
+// Set Field Props
+export interface SetFieldProps extends BaseFieldProps {
+  value?: Array<string | number>;
+  onChange?: (value: Array<string | number>) => void;
+  options?: Array<{ label: string; value: string | number }>;
+  inputType?: 'text' | 'number' | 'email' | 'url';
+  addButtonText?: string;
+  maxItems?: number;
+}
+
 // Object Field Props
 export interface ObjectFieldProps extends BaseFieldProps {
   children: ReactNode;
@@ -173,14 +209,33 @@ export interface ObjectFieldProps extends BaseFieldProps {
 }
 
 // Form Section Props
-export interface FormSectionProps extends HTMLAttributes<HTMLDivElement> {
+export interface FormSectionProps extends Omit<HTMLAttributes<HTMLFieldSetElement>, 'title'> {
   title?: string;
   description?: string;
   collapsible?: boolean;
   defaultExpanded?: boolean;
+  // Invalid fields in the section, shown while it is collapsed
+  errorCount?: number;
   children: ReactNode;
 }
 
+// Step Indicator Props
+export interface StepIndicatorProps extends HTMLAttributes<HTMLElement> {
+  steps: Array<{ title: string; hasError?: boolean }>;
+  currentStep: number;
+  onStepClick?: (index: number) => void;
+  disabled?: boolean;
+}
+
+// Tabs Props
+export interface TabsProps extends HTMLAttributes<HTMLDivElement> {
+  tabs: Array<{ title: string; errorCount?: number; content: ReactNode }>;
+  activeTab: number;
+  onTabChange?: (index: number) => void;
+  // Show every panel without the tab list, e.g. before the page hydrates
+  showAllPanels?: boolean;
+}
+
 // Form Group Props
 export interface FormGroupProps extends HTMLAttributes<HTMLDivElement> {
   children: ReactNode;
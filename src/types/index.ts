@@ -5,6 +5,14 @@ import { FieldError, UseFormRegisterReturn } from 'react-hook-form';
 // Core Zod Form Types
 export type ZodSchema = z.ZodTypeAny;
 
+// Zod 4 schemas, described structurally: 'zod/v4' types don't resolve under node module resolution
+export interface Zod4Schema<Output = any> {
+  _zod: { def: { type: string }; output: Output };
+}
+
+// A schema from either Zod version
+export type AnyZodSchema = ZodSchema | Zod4Schema;
+
 // Theme Configuration
 export type Theme = 'dark' | 'light' | 'auto';
 
@@ -24,15 +32,43 @@ export interface ThemeConfig {
 }
 
 // Layout Options
-export type Layout = 'vertical' | 'horizontal' | 'grid';
+export type Layout = 'vertical' | 'horizontal' | 'grid' | 'tabs';
 
 export interface LayoutConfig {
-  layout: Layout;
+  // Overrides the form's `layout` prop
+  layout?: Layout;
+  // Grid columns; fields span them with `colSpan` and `rowSpan`
   columns?: number;
   spacing?: 'sm' | 'md' | 'lg';
   labelPosition?: 'top' | 'left' | 'floating';
 }
 
+// Wizard step: a titled group of fields, validated before moving on
+export interface FormStep {
+  title: string;
+  description?: string;
+  // Field names or dotted paths shown on the step, in display order
+  fields: string[];
+}
+
+// Form section: a titled group of fields rendered as a fieldset
+export interface FormSectionConfig {
+  title: string;
+  description?: string;
+  // Field names or dotted paths in the section, in display order
+  fields: string[];
+  collapsible?: boolean;
+  defaultExpanded?: boolean;
+}
+
+// Form tab: a titled group of fields shown one group at a time
+export interface FormTab {
+  title: string;
+  description?: string;
+  // Field names or dotted paths on the tab, in display order
+  fields: string[];
+}
+
 // Field Types
 export type FieldType =
   | 'text'
@@ -54,15 +90,23 @@ export type FieldType =
   | 'array'
   | 'object'
   | 'record'
+  | 'tuple'
+  | 'set'
+  | 'map'
+  | 'discriminated-union'
+  | 'union'
   | 'switch'
   | 'color';
 
 // Field Configuration
 export interface FieldConfig {
-  type?: FieldType;
+  // A field type, or the name of a component registered in `customComponents`
+  type?: FieldType | (string & Record<never, never>);
   label?: string;
   placeholder?: string;
   description?: string;
+  // Constraint hint shown below the field, e.g. the allowed date range
+  hint?: string;
   hidden?: boolean;
   disabled?: boolean;
   readOnly?: boolean;
@@ -88,17 +132,21 @@ export interface FieldConfig {
   // Select/Radio options
   options?: Array<{ label: string; value: string | number; disabled?: boolean }>;
 
-  // Number inputs
-  min?: number;
-  max?: number;
+  // Number inputs (ISO strings for date and time inputs)
+  min?: number | string;
+  max?: number | string;
   step?: number;
 
   // Text inputs
   minLength?: number;
   maxLength?: number;
   pattern?: string;
+  rows?: number;
 
   // Layout
+  order?: number;
+  colSpan?: number;
+  rowSpan?: number;
   className?: string;
   containerClassName?: string;
   labelClassName?: string;
@@ -111,7 +159,17 @@ export interface FieldConfig {
   };
 
   // Object/Array specific
-  fields?: Record<string, any>;
+  fields?: Record<string, FieldAnalysis>;
+
+  // Lazy (recursive) objects: fields are parsed on demand instead of into `fields`
+  lazy?: boolean;
+
+  // Discriminated union specific (variant fields keyed by discriminator value)
+  discriminator?: string;
+  variants?: Record<string, Record<string, FieldAnalysis>>;
+
+  // Union specific (one analysis per member, all sharing the union's path)
+  members?: FieldAnalysis[];
 
   // Custom render functions
   renderLabel?: (label: string) => ReactNode;
@@ -121,7 +179,7 @@ export interface FieldConfig {
 
 // Form Configuration
 export interface ZodFormConfig {
-  schema: ZodSchema;
+  schema: AnyZodSchema;
 
   // Theming
   theme?: Theme;
@@ -134,15 +192,45 @@ export interface ZodFormConfig {
   // Field Options
   fieldOptions?: Record<string, FieldConfig>;
 
+  // Sections grouping the fields (of forms without steps); unlisted fields follow them
+  sections?: FormSectionConfig[];
+
+  // Tabs grouping the fields; without them, the `tabs` layout gives each top-level object a
+  // tab. Fields on no tab are shown above the tabs
+  tabs?: FormTab[];
+
+  // Multi-step wizard; fields not listed in any step go on the last one
+  steps?: FormStep[];
+  // Summary of every step shown before the final submit
+  reviewStep?: boolean;
+
+  // Maximum nesting depth (in path segments) that recursive schemas expand to
+  maxDepth?: number;
+
+  // Registry read for field hints, e.g. a Zod 4 `z.registry()`
+  registry?: FieldMetadataRegistry;
+
+  // Field type mappers for this form, consulted before global and built-in rules
+  fieldMappers?: FieldMapperEntry[];
+
   // Form Behavior
   onSubmit?: (data: any) => void | Promise<void>;
   onError?: (errors: Record<string, FieldError>) => void;
   onChange?: (data: any) => void;
 
+  // Server action (or URL) the form posts to, e.g. the action returned by `useActionState`
+  action?: string | ((formData: globalThis.FormData) => void | Promise<void>);
+  // The action's latest state, whose errors and values are shown on the form
+  actionState?: ZodFormActionState;
+
   // Validation
   mode?: 'onChange' | 'onBlur' | 'onSubmit' | 'onTouched' | 'all';
   reValidateMode?: 'onChange' | 'onBlur' | 'onSubmit';
 
+  // Emit native constraint attributes (required, minlength, pattern, ...) for use before
+  // hydration; false leaves out everything but the min/max/step that shape pickers
+  nativeValidation?: boolean;
+
   // Form State
   defaultValues?: any;
   values?: any;
@@ -150,6 +238,9 @@ export interface ZodFormConfig {
   // UI Configuration
   submitButtonText?: string;
   resetButtonText?: string;
+  nextButtonText?: string;
+  backButtonText?: string;
+  reviewStepTitle?: string;
   showSubmitButton?: boolean;
   showResetButton?: boolean;
 
@@ -158,7 +249,8 @@ export interface ZodFormConfig {
   disabled?: boolean;
 
   // Custom Components
-  customComponents?: Record<string, React.ComponentType<any>>;
+  // Keyed by field path, custom type name or field type, in that order of precedence
+  customComponents?: Record<string, React.ComponentType<CustomFieldProps>>;
 
   // Advanced Features
   autoSave?: boolean;
@@ -169,6 +261,19 @@ export interface ZodFormConfig {
   ariaLabelledBy?: string;
 }
 
+// State returned by an action from `createZodFormAction`
+export interface ZodFormActionState<TResult = any> {
+  status: 'idle' | 'success' | 'error';
+  // First message per field, keyed by dotted path
+  fieldErrors?: Record<string, string>;
+  // Messages about the form as a whole
+  formErrors?: string[];
+  // The submitted values, to refill the form after a failed submission
+  values?: Record<string, any>;
+  // The handler's return value after a successful submission
+  result?: TResult;
+}
+
 // Field Component Props
 export interface FieldProps {
   name: string;
@@ -184,6 +289,34 @@ export interface FieldProps {
   className?: string;
 }
 
+/**
+ * Props for components registered with `customComponents`
+ *
+ * The component replaces the field's built-in control and edits its value directly:
+ * `value` is the value in form state (a `Date`, number or array rather than an input
+ * string) and `onChange` takes the new value. The form still renders the label,
+ * description and error message around it; give the focusable element `id` so the
+ * label points at it.
+ */
+export interface CustomFieldProps<TValue = any> {
+  id: string;
+  // Dotted path of the field
+  name: string;
+  value: TValue;
+  onChange: (value: TValue) => void;
+  onBlur: () => void;
+  error?: FieldError;
+  label?: string;
+  placeholder?: string;
+  disabled?: boolean;
+  readOnly?: boolean;
+  required?: boolean;
+  // The field's config, with `fieldOptions` applied
+  config: FieldConfig;
+  // The field as read from the schema
+  field: FieldAnalysis;
+}
+
 // Array Field Props
 export interface ArrayFieldProps extends Omit<FieldProps, 'register'> {
   fields: Array<{ id: string }>;
@@ -239,13 +372,68 @@ export interface FormState {
 }
 
 // Schema Analysis Types
+// Metadata store read for field hints, e.g. a Zod 4 `z.registry()`
+export interface FieldMetadataRegistry {
+  get(schema: any): Record<string, any> | undefined;
+}
+
+// The field type and config a schema maps to
+export interface FieldMapping {
+  type: FieldType;
+  config: Partial<FieldConfig>;
+}
+
+export interface FieldMapperContext {
+  // Dotted path of the field being mapped
+  path: string;
+}
+
+export type FieldMapperPredicate = (schema: ZodSchema, context: FieldMapperContext) => boolean;
+
+// Returning undefined defers to the next mapper; `next` runs the remaining mappers and built-in rules
+export type FieldMapper = (
+  schema: ZodSchema,
+  context: FieldMapperContext & { next: () => FieldMapping }
+) => FieldMapping | undefined;
+
+export interface FieldMapperEntry {
+  predicate: FieldMapperPredicate;
+  mapper: FieldMapper;
+}
+
+export interface ParseOptions {
+  // Maximum nesting depth in path segments; deeper fields are not parsed
+  maxDepth?: number;
+
+  // Registry consulted for field hints in addition to `withField` and `.meta()`
+  registry?: FieldMetadataRegistry;
+
+  // Mappers consulted before the global mappers and built-in rules
+  fieldMappers?: FieldMapperEntry[];
+}
+
+export interface DefaultValueOptions {
+  // 'empty' for the values of an untouched form, 'sample' for seeded example data
+  mode?: 'empty' | 'sample';
+
+  // Seed for sample mode; the same seed always produces the same values
+  seed?: number;
+}
+
+export interface MockDataOptions {
+  // The same seed always produces the same data
+  seed?: number;
+}
+
 export interface FieldAnalysis {
   name: string;
+  path: string;
   type: FieldType;
   zodType: string;
   required: boolean;
   config: FieldConfig;
   defaultValue?: any;
+  schema: ZodSchema;
 }
 
 export interface SchemaAnalysis {
@@ -261,7 +449,11 @@ export type DeepPartial<T> = {
   [P in keyof T]?: T[P] extends object ? DeepPartial<T[P]> : T[P];
 };
 
-export type FormData<T extends ZodSchema> = z.infer<T>;
+export type FormData<T extends AnyZodSchema> = T extends ZodSchema
+  ? z.infer<T>
+  : T extends Zod4Schema<infer Output>
+    ? Output
+    : never;
 
 // Export all types for easy importing
 export * from './validation';
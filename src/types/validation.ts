@@ -35,7 +35,7 @@ export type ZodOptional = z.ZodOptional<any> | z.ZodNullable<any> | z.ZodDefault
 
 // Schema Inspection Types
 export interface ZodTypeInfo {
-  typeName: z.ZodFirstPartyTypeKind;
+  typeName: z.ZodFirstPartyTypeKind | string;
   isOptional: boolean;
   isNullable: boolean;
   hasDefault: boolean;
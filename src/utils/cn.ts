@@ -24,6 +24,18 @@ export const themeClasses = {
     base: 'block text-sm font-medium text-zf-text',
     required: "after:content-['*'] after:ml-0.5 after:text-zf-error",
     optional: 'text-zf-text-muted',
+    left: 'sm:pt-2',
+    floating: 'absolute -top-2 left-2 z-10 bg-zf-surface px-1 text-xs',
+    // A floating label resting inside an empty input, until the input is focused
+    resting:
+      'top-2 text-sm text-zf-text-muted pointer-events-none transition-all group-focus-within:-top-2 group-focus-within:text-xs group-focus-within:text-zf-primary',
+  },
+
+  // Label positions
+  labelLayout: {
+    left: 'sm:grid sm:grid-cols-3 sm:items-start sm:gap-4',
+    leftControl: 'space-y-2 sm:col-span-2 sm:col-start-2',
+    floating: 'group relative',
   },
 
   // Input styles
@@ -57,6 +69,40 @@ export const themeClasses = {
     error: 'border-zf-error',
   },
 
+  // Segmented control styles
+  segmented: {
+    container: 'inline-flex rounded-md border border-zf-border bg-zf-surface p-0.5',
+    option:
+      'px-3 py-1.5 text-sm font-medium rounded text-zf-text-muted hover:text-zf-text transition-colors focus:outline-none focus:ring-2 focus:ring-zf-primary disabled:opacity-50 disabled:cursor-not-allowed',
+    active: 'bg-zf-primary text-white hover:text-white',
+  },
+
+  // Form section styles
+  section: {
+    container: 'space-y-4 border border-zf-border rounded-lg p-4',
+    legend: 'px-1 text-sm font-medium text-zf-text',
+    content: 'space-y-4',
+    errorBadge: 'ml-2 rounded-full bg-zf-error px-2 py-0.5 text-xs font-medium text-white',
+  },
+
+  // Tab styles
+  tabs: {
+    list: 'flex gap-1 border-b border-zf-border',
+    tab: 'inline-flex items-center -mb-px border-b-2 border-transparent px-4 py-2 text-sm font-medium text-zf-text-muted hover:text-zf-text transition-colors focus:outline-none focus:ring-2 focus:ring-zf-primary',
+    active: 'border-zf-primary text-zf-primary hover:text-zf-primary',
+    errorBadge: 'ml-2 rounded-full bg-zf-error px-2 py-0.5 text-xs font-medium text-white',
+    panel: 'pt-6',
+  },
+
+  // Wizard step indicator styles
+  steps: {
+    list: 'flex gap-2',
+    step: 'flex w-full flex-col items-start border-t-4 border-zf-border pt-2 text-left text-zf-text-muted hover:text-zf-text transition-colors focus:outline-none focus:ring-2 focus:ring-zf-primary disabled:opacity-50 disabled:cursor-not-allowed',
+    complete: 'border-zf-primary/60 text-zf-text',
+    current: 'border-zf-primary text-zf-primary',
+    error: 'border-zf-error text-zf-error',
+  },
+
   // Button styles
   button: {
     primary:
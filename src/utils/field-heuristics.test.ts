@@ -0,0 +1,103 @@
+import { z } from 'zod';
+import {
+  createNameRuleMappers,
+  createSimpleFormMappers,
+  DEFAULT_NAME_RULES,
+} from './field-heuristics';
+import { parseSchema, flattenFields } from './schema-parser';
+import { withField } from './field-metadata';
+
+describe('Field Heuristics', () => {
+  const parseWithRules = (schema: z.ZodTypeAny, rules = DEFAULT_NAME_RULES) =>
+    flattenFields(parseSchema(schema, '', { fieldMappers: createNameRuleMappers(rules) }));
+
+  describe('DEFAULT_NAME_RULES', () => {
+    it('should render rating numbers as stars', () => {
+      const flat = parseWithRules(
+        z.object({
+          rating: z.number().min(1).max(10),
+          review: z.object({ overallSatisfaction: z.number().optional() }),
+          count: z.number().min(1).max(10),
+        })
+      );
+
+      expect(flat.rating.type).toBe('stars');
+      expect(flat.rating.config).toMatchObject({ min: 1, max: 10 });
+      expect(flat['review.overallSatisfaction'].type).toBe('stars');
+      expect(flat['review.overallSatisfaction'].required).toBe(false);
+      expect(flat.count.type).toBe('range');
+    });
+
+    it('should render long-form text fields as document textareas', () => {
+      const flat = parseWithRules(
+        z.object({ Bio: z.string(), notes: z.array(z.string()), title: z.string() })
+      );
+
+      expect(flat.Bio.type).toBe('textarea');
+      expect(flat.Bio.config).toMatchObject({ rows: 6, documentUpload: true });
+      expect(flat.notes.type).toBe('array');
+      expect(flat.title.type).toBe('text');
+    });
+  });
+
+  describe('createNameRuleMappers', () => {
+    it('should merge rule config over the built-in mapping', () => {
+      const flat = parseWithRules(z.object({ website: z.string().url().max(200) }), [
+        { names: ['website'], config: { placeholder: 'https://' } },
+      ]);
+
+      expect(flat.website.type).toBe('url');
+      expect(flat.website.config).toMatchObject({ placeholder: 'https://' });
+    });
+
+    it('should apply the first matching rule', () => {
+      const flat = parseWithRules(z.object({ summary: z.string() }), [
+        { names: [/sum/], type: 'textarea' },
+        { names: ['summary'], type: 'password' },
+      ]);
+
+      expect(flat.summary.type).toBe('textarea');
+    });
+  });
+
+  describe('createSimpleFormMappers', () => {
+    const parseSimple = (schema: z.ZodTypeAny) =>
+      flattenFields(
+        parseSchema(schema, '', { fieldMappers: createSimpleFormMappers(DEFAULT_NAME_RULES) })
+      );
+
+    it('should label fields from their names and keep labels and placeholders they have', () => {
+      const flat = parseSimple(
+        z.object({
+          firstName: z.string(),
+          code: z.string().length(4),
+          city: withField(z.string(), { label: 'Town' }),
+          active: z.boolean(),
+          tags: z.array(z.string()),
+        })
+      );
+
+      expect(flat.firstName.config).toMatchObject({
+        label: 'FirstName',
+        placeholder: 'Enter firstname',
+      });
+      expect(flat.code.config.placeholder).toBe('Exactly 4 characters');
+      expect(flat.city.config.label).toBe('Town');
+      expect(flat.active.config.placeholder).toBeUndefined();
+      expect(flat.tags.config.label).toBe('Tags');
+    });
+
+    it('should rate numbers from 1 to 5 with stars', () => {
+      const flat = parseSimple(
+        z.object({
+          score: z.number().int().min(1).max(5).optional(),
+          size: z.number().min(0).max(5),
+        })
+      );
+
+      expect(flat.score.type).toBe('stars');
+      expect(flat.score.config).toMatchObject({ min: 1, max: 5, label: 'Score' });
+      expect(flat.size.type).toBe('range');
+    });
+  });
+});
@@ -0,0 +1,135 @@
+import { FieldConfig, FieldMapperEntry, FieldType } from '../types';
+import { getChecks, getSchemaKind, SchemaKind } from './zod-introspection';
+
+/**
+ * Name-based field heuristics
+ *
+ * Rules pick a field type from a field's name, e.g. a `bio` string becomes a textarea.
+ * They run as field mappers on top of the parser's built-in rules, so every form that
+ * uses them (including `SimpleZodForm`) renders the same schema the same way.
+ */
+
+export interface FieldNameRule {
+  // Field names the rule applies to: strings match the whole name, ignoring case
+  names: Array<string | RegExp>;
+
+  // Schema kinds the rule applies to; any kind when omitted
+  kinds?: SchemaKind[];
+
+  // Field type to use; the built-in type when omitted
+  type?: FieldType;
+
+  // Config merged over the built-in config
+  config?: Partial<FieldConfig>;
+}
+
+/**
+ * The rules `SimpleZodForm` applies by default
+ */
+export const DEFAULT_NAME_RULES: FieldNameRule[] = [
+  { names: [/rating|satisfaction|stars/i], kinds: ['number'], type: 'stars' },
+  {
+    names: ['bio', 'notes', 'description', 'document', 'documentText'],
+    kinds: ['string'],
+    type: 'textarea',
+    config: { rows: 6, documentUpload: true },
+  },
+];
+
+// The last segment of a dotted path, i.e. the field's own name
+const getFieldName = (path: string): string => path.slice(path.lastIndexOf('.') + 1);
+
+const matchesName = (rule: FieldNameRule, name: string): boolean =>
+  rule.names.some(pattern =>
+    typeof pattern === 'string' ? pattern.toLowerCase() === name.toLowerCase() : pattern.test(name)
+  );
+
+/**
+ * Turn name rules into field mappers, e.g. for a form's `fieldMappers`
+ *
+ * @example
+ * ```tsx
+ * <ZodForm schema={schema} fieldMappers={createNameRuleMappers(DEFAULT_NAME_RULES)} />
+ * ```
+ */
+export const createNameRuleMappers = (rules: FieldNameRule[]): FieldMapperEntry[] =>
+  rules.map(rule => ({
+    predicate: (schema, { path }) =>
+      matchesName(rule, getFieldName(path)) &&
+      (!rule.kinds || rule.kinds.includes(getSchemaKind(schema))),
+    mapper: (schema, { next }) => {
+      const mapping = next();
+
+      return {
+        type: rule.type || mapping.type,
+        config: { ...mapping.config, ...rule.config },
+      };
+    },
+  }));
+
+// Field types that show a placeholder while empty
+const PLACEHOLDER_FIELD_TYPES: FieldType[] = [
+  'text',
+  'email',
+  'password',
+  'url',
+  'tel',
+  'number',
+  'textarea',
+];
+
+// A capitalized label from the field's name, and an "Enter …" placeholder for typed inputs;
+// array and tuple items are labelled by the form
+const fieldTextDefaults: FieldMapperEntry = {
+  predicate: (schema, { path }) => !/^\d+$/.test(getFieldName(path)),
+  mapper: (schema, { path, next }) => {
+    const mapping = next();
+    const name = getFieldName(path);
+    const label = mapping.config.label || name.charAt(0).toUpperCase() + name.slice(1);
+
+    return {
+      type: mapping.type,
+      config: {
+        ...mapping.config,
+        label,
+        placeholder:
+          mapping.config.placeholder ||
+          (PLACEHOLDER_FIELD_TYPES.includes(mapping.type)
+            ? `Enter ${label.toLowerCase()}`
+            : undefined),
+      },
+    };
+  },
+};
+
+// Numbers from 1 to 5 are rated with stars, whatever their name
+const starRange: FieldMapperEntry = {
+  predicate: schema => {
+    const checks = getChecks(schema);
+    return (
+      getSchemaKind(schema) === 'number' &&
+      checks.some(check => check.kind === 'min' && check.value === 1) &&
+      checks.some(check => check.kind === 'max' && check.value === 5)
+    );
+  },
+  mapper: (schema, { next }) => ({ ...next(), type: 'stars' }),
+};
+
+/**
+ * The mappers `SimpleZodForm` uses: `fieldMappers` and the name rules, plus its own
+ * defaults (capitalized labels, "Enter …" placeholders and star ratings for 1–5 numbers)
+ *
+ * @example
+ * ```tsx
+ * <ZodForm schema={schema} fieldMappers={createSimpleFormMappers(DEFAULT_NAME_RULES)} />
+ * ```
+ */
+export const createSimpleFormMappers = (
+  rules: FieldNameRule[],
+  fieldMappers: FieldMapperEntry[] = []
+): FieldMapperEntry[] => [
+  fieldTextDefaults,
+  ...fieldMappers,
+  ...createNameRuleMappers(rules),
+  starRange,
+];
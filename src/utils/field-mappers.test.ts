@@ -0,0 +1,102 @@
+import { z } from 'zod';
+import { FieldMapperEntry } from '../types';
+import { registerFieldMapper } from './field-mappers';
+import { mapZodTypeToFieldType, parseSchema, flattenFields } from './schema-parser';
+import { getSchemaKind, getChecks } from './zod-introspection';
+
+const isEnum = (schema: z.ZodTypeAny) => getSchemaKind(schema) === 'enum';
+
+describe('Field Mappers', () => {
+  const role = z.enum(['admin', 'user']);
+
+  describe('registerFieldMapper', () => {
+    it('should take precedence over the built-in rules', () => {
+      const unregister = registerFieldMapper(isEnum, (schema, { next }) => ({
+        ...next(),
+        type: 'select',
+      }));
+
+      try {
+        const { type, config } = mapZodTypeToFieldType(role);
+
+        expect(type).toBe('select');
+        expect(config.options).toHaveLength(2);
+      } finally {
+        unregister();
+      }
+
+      expect(mapZodTypeToFieldType(role).type).toBe('radio');
+    });
+
+    it('should see the schema inside wrappers, which still apply', () => {
+      const unregister = registerFieldMapper(isEnum, () => ({ type: 'select', config: {} }));
+
+      try {
+        const { type, config } = mapZodTypeToFieldType(role.optional().default('user'));
+
+        expect(type).toBe('select');
+        expect(config).toEqual({ required: false, defaultValue: 'user' });
+      } finally {
+        unregister();
+      }
+    });
+
+    it('should defer to the next mapper when a mapper returns undefined', () => {
+      const unregisterFirst = registerFieldMapper(isEnum, () => undefined);
+      const unregisterSecond = registerFieldMapper(isEnum, () => ({ type: 'select', config: {} }));
+
+      try {
+        expect(mapZodTypeToFieldType(role).type).toBe('select');
+      } finally {
+        unregisterFirst();
+        unregisterSecond();
+      }
+    });
+  });
+
+  describe('per-form mappers', () => {
+    const longText: FieldMapperEntry = {
+      predicate: schema =>
+        getSchemaKind(schema) === 'string' &&
+        getChecks(schema).some(check => check.kind === 'min' && check.value >= 20),
+      mapper: (schema, { next }) => ({ ...next(), type: 'textarea' }),
+    };
+
+    it('should apply at every depth', () => {
+      const schema = z.object({
+        title: z.string().min(2),
+        post: z.object({ body: z.string().min(20) }),
+      });
+
+      const flat = flattenFields(parseSchema(schema, '', { fieldMappers: [longText] }));
+
+      expect(flat.title.type).toBe('text');
+      expect(flat['post.body'].type).toBe('textarea');
+      expect(flat['post.body'].config.minLength).toBe(20);
+    });
+
+    it('should be consulted before global mappers', () => {
+      const unregister = registerFieldMapper(isEnum, () => ({ type: 'select', config: {} }));
+
+      try {
+        const fields = parseSchema(z.object({ role }), '', {
+          fieldMappers: [{ predicate: isEnum, mapper: () => ({ type: 'switch', config: {} }) }],
+        });
+
+        expect(fields.role.type).toBe('switch');
+      } finally {
+        unregister();
+      }
+    });
+
+    it('should receive the field path', () => {
+      const predicate = jest.fn(() => false);
+
+      parseSchema(z.object({ address: z.object({ city: z.string() }) }), '', {
+        fieldMappers: [{ predicate, mapper: () => undefined }],
+      });
+
+      expect(predicate).toHaveBeenCalledWith(expect.anything(), { path: 'address.city' });
+    });
+  });
+});
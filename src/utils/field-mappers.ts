@@ -0,0 +1,74 @@
+import { z } from 'zod';
+import {
+  AnyZodSchema,
+  FieldMapper,
+  FieldMapperEntry,
+  FieldMapperPredicate,
+  FieldMapping,
+} from '../types';
+
+/**
+ * Pluggable field type mapping
+ *
+ * Mappers replace or adjust the built-in rules that turn a schema into a field type,
+ * e.g. to render small enums as selects instead of radios. Per-form mappers (the
+ * `fieldMappers` option) are consulted first, then global ones in registration order,
+ * then the built-in rules. Wrappers such as `.optional()` are stripped before mappers
+ * run, so predicates see the underlying schema.
+ */
+
+const globalMappers: FieldMapperEntry[] = [];
+
+/**
+ * Register a field mapper for every form
+ *
+ * Returns a function that unregisters it. Forms that are already mounted keep their
+ * parsed fields, so register mappers before rendering.
+ *
+ * @example
+ * ```ts
+ * registerFieldMapper(
+ *   schema => getSchemaKind(schema) === 'enum',
+ *   (schema, { next }) => ({ ...next(), type: 'select' })
+ * );
+ * ```
+ */
+export const registerFieldMapper = (
+  predicate: FieldMapperPredicate,
+  mapper: FieldMapper
+): (() => void) => {
+  const entry: FieldMapperEntry = { predicate, mapper };
+  globalMappers.push(entry);
+
+  return () => {
+    const index = globalMappers.indexOf(entry);
+    if (index !== -1) globalMappers.splice(index, 1);
+  };
+};
+
+/**
+ * Map a schema with the first matching mapper, falling back to the built-in rules
+ */
+export const applyFieldMappers = (
+  zodType: AnyZodSchema,
+  path: string,
+  formMappers: FieldMapperEntry[] = [],
+  builtIn: () => FieldMapping
+): FieldMapping => {
+  const mappers = [...formMappers, ...globalMappers];
+  const schema = zodType as z.ZodTypeAny;
+
+  const run = (start: number): FieldMapping => {
+    for (let index = start; index < mappers.length; index++) {
+      const { predicate, mapper } = mappers[index];
+      if (!predicate(schema, { path })) continue;
+
+      const mapping = mapper(schema, { path, next: () => run(index + 1) });
+      if (mapping) return mapping;
+    }
+
+    return builtIn();
+  };
+
+  return run(0);
+};
@@ -0,0 +1,56 @@
+import { z } from 'zod';
+import { withField, getFieldMetadata } from './field-metadata';
+import { analyzeField, parseSchema, flattenFields } from './schema-parser';
+
+describe('Field Metadata', () => {
+  describe('withField', () => {
+    it('should attach metadata to a copy of the schema', () => {
+      const base = z.string();
+      const labeled = withField(base, { label: 'Name' });
+
+      expect(getFieldMetadata(labeled)).toEqual({ label: 'Name' });
+      expect(getFieldMetadata(base)).toEqual({});
+      expect(labeled.parse('Ada')).toBe('Ada');
+    });
+
+    it('should merge with metadata already on the schema', () => {
+      const schema = withField(withField(z.string(), { label: 'Name', order: 2 }), { order: 1 });
+
+      expect(getFieldMetadata(schema)).toEqual({ label: 'Name', order: 1 });
+    });
+
+    it('should read metadata through wrappers, outer values first', () => {
+      const inner = withField(z.string(), { label: 'Inner', placeholder: 'Type here' });
+      const schema = withField(inner.optional(), { label: 'Outer' }).default('');
+
+      expect(getFieldMetadata(schema)).toEqual({ label: 'Outer', placeholder: 'Type here' });
+    });
+  });
+
+  describe('analyzeField', () => {
+    it('should apply metadata on top of the inferred config', () => {
+      const field = analyzeField(
+        'rating',
+        withField(z.number().min(1).max(5), { type: 'stars', label: 'Rating', colSpan: 2 })
+      );
+
+      expect(field.type).toBe('stars');
+      expect(field.config).toMatchObject({ label: 'Rating', colSpan: 2, min: 1, max: 5 });
+    });
+
+    it('should pick up metadata at any nesting level', () => {
+      const schema = z.object({
+        address: z.object({
+          city: withField(z.string(), { placeholder: 'City' }),
+        }),
+        stops: z.tuple([withField(z.string(), { label: 'Origin' }), z.string()]),
+      });
+
+      const flat = flattenFields(parseSchema(schema));
+
+      expect(flat['address.city'].config.placeholder).toBe('City');
+      expect(flat['stops.0'].config.label).toBe('Origin');
+      expect(flat['stops.1'].config.label).toBe('Item 2');
+    });
+  });
+});
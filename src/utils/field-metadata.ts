@@ -0,0 +1,68 @@
+import { z } from 'zod';
+import { AnyZodSchema, FieldConfig, FieldMetadataRegistry } from '../types';
+import { getInnerSchema, getSchemaMeta, isZod4Schema } from './zod-introspection';
+
+/**
+ * Field metadata attached to Zod schemas
+ *
+ * `withField` keeps UI hints next to the schema they describe instead of in a
+ * separate `fieldOptions` map, so they apply wherever the schema is nested. On
+ * Zod 4, `.meta()` and registry entries are read as hints too.
+ */
+
+const registry = new WeakMap<AnyZodSchema, FieldConfig>();
+
+// Zod 4 metadata uses JSON Schema's `title`; descriptions are read from the schema itself
+const toFieldConfig = (meta: Record<string, any> | undefined): FieldConfig => {
+  if (!meta) return {};
+
+  const { title, ...config } = meta;
+  delete config.description;
+
+  return title !== undefined ? { label: title, ...config } : config;
+};
+
+/**
+ * Attach field metadata to a schema
+ *
+ * Returns a copy of the schema, so shared schemas are not affected. Metadata already
+ * attached to the schema is kept, with the new values taking precedence.
+ *
+ * @example
+ * ```ts
+ * const schema = z.object({
+ *   rating: withField(z.number().min(1).max(5), { label: 'Rating', type: 'stars', order: 1 }),
+ * });
+ * ```
+ */
+export const withField = <T extends AnyZodSchema>(schema: T, config: FieldConfig): T => {
+  const Schema = schema.constructor as new (def: z.ZodTypeDef) => T;
+  const copy = isZod4Schema(schema)
+    ? (schema as any).clone()
+    : new Schema({ ...(schema as z.ZodTypeAny)._def });
+
+  registry.set(copy, { ...registry.get(schema), ...config });
+  return copy;
+};
+
+/**
+ * Read the metadata attached to a schema, including metadata on the schemas it wraps
+ *
+ * Metadata on an outer wrapper (e.g. `withField(inner, {...}).optional()` vs.
+ * `withField(inner.optional(), {...})`) overrides metadata on the inner schema. At each
+ * level `withField` takes precedence over the given registry, which takes precedence
+ * over `.meta()`.
+ */
+export const getFieldMetadata = (
+  zodType: AnyZodSchema,
+  metadataRegistry?: FieldMetadataRegistry
+): FieldConfig => {
+  const inner = getInnerSchema(zodType);
+
+  return {
+    ...(inner ? getFieldMetadata(inner, metadataRegistry) : {}),
+    ...toFieldConfig(getSchemaMeta(zodType)),
+    ...toFieldConfig(metadataRegistry?.get(zodType)),
+    ...registry.get(zodType),
+  };
+};
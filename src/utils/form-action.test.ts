@@ -0,0 +1,131 @@
+import { z } from 'zod';
+import { createZodFormAction, initialActionState } from './form-action';
+
+const toFormData = (entries: Array<[string, string]>) => {
+  const formData = new FormData();
+  entries.forEach(([name, value]) => formData.append(name, value));
+  return formData;
+};
+
+describe('createZodFormAction', () => {
+  const schema = z.object({
+    name: z.string().min(2, 'Name is too short'),
+    age: z.number().int().min(18),
+    subscribed: z.boolean(),
+    role: z.enum(['admin', 'viewer']),
+    address: z.object({ city: z.string().min(1, 'City is required'), zip: z.string() }),
+    items: z.array(z.object({ name: z.string(), quantity: z.number() })),
+    tags: z.set(z.string()),
+  });
+
+  it('should read FormData into the nested shape and call the handler', async () => {
+    const handler = jest.fn(async (data: z.infer<typeof schema>) => data.items.length);
+    const action = createZodFormAction(schema, handler);
+
+    const state = await action(
+      initialActionState,
+      toFormData([
+        ['$ACTION_ID_abc', ''],
+        ['name', 'Ada'],
+        ['age', '36'],
+        ['role', 'admin'],
+        ['address.city', 'London'],
+        ['address.zip', 'N1'],
+        ['items.1.name', 'Bolts'],
+        ['items.1.quantity', '20'],
+        ['items.0.name', 'Nuts'],
+        ['items.0.quantity', '10'],
+        ['tags', 'new'],
+        ['tags', 'sale'],
+      ])
+    );
+
+    expect(state).toEqual({ status: 'success', result: 2 });
+    expect(handler.mock.calls[0][0]).toEqual({
+      name: 'Ada',
+      age: 36,
+      subscribed: false,
+      role: 'admin',
+      address: { city: 'London', zip: 'N1' },
+      items: [
+        { name: 'Nuts', quantity: 10 },
+        { name: 'Bolts', quantity: 20 },
+      ],
+      tags: new Set(['new', 'sale']),
+    });
+  });
+
+  it('should return field errors and the submitted values without calling the handler', async () => {
+    const handler = jest.fn();
+    const action = createZodFormAction(schema, handler);
+
+    const state = await action(
+      initialActionState,
+      toFormData([
+        ['name', 'A'],
+        ['age', '40'],
+        ['subscribed', 'on'],
+        ['role', 'viewer'],
+        ['address.city', ''],
+        ['address.zip', 'N1'],
+      ])
+    );
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(state.status).toBe('error');
+    expect(state.fieldErrors).toEqual({
+      name: 'Name is too short',
+      'address.city': 'City is required',
+    });
+    expect(state.formErrors).toEqual([]);
+    expect(state.values).toEqual({
+      name: 'A',
+      age: 40,
+      subscribed: true,
+      role: 'viewer',
+      address: { city: '', zip: 'N1' },
+      items: [],
+      tags: [],
+    });
+  });
+
+  it('should report issues about the whole form as form errors', async () => {
+    const passwords = z
+      .object({ password: z.string(), confirm: z.string() })
+      .refine(data => data.password === data.confirm, 'Passwords do not match');
+    const action = createZodFormAction(passwords, jest.fn());
+
+    const state = await action(
+      initialActionState,
+      toFormData([
+        ['password', 'secret'],
+        ['confirm', 'secrets'],
+      ])
+    );
+
+    expect(state.formErrors).toEqual(['Passwords do not match']);
+    expect(state.fieldErrors).toEqual({});
+  });
+
+  it('should pick discriminated union variants and leave out empty optional values', async () => {
+    const contact = z.object({
+      method: z.discriminatedUnion('type', [
+        z.object({ type: z.literal('email'), address: z.string().email() }),
+        z.object({ type: z.literal('phone'), number: z.string(), ext: z.number().optional() }),
+      ]),
+    });
+    const handler = jest.fn();
+    const action = createZodFormAction(contact, handler);
+
+    await action(
+      initialActionState,
+      toFormData([
+        ['method.type', 'phone'],
+        ['method.number', '555-0100'],
+        ['method.ext', ''],
+      ])
+    );
+
+    expect(handler.mock.calls[0][0]).toEqual({ method: { type: 'phone', number: '555-0100' } });
+  });
+});
@@ -0,0 +1,75 @@
+import { z } from 'zod';
+import { AnyZodSchema, FormData, ZodFormActionState } from '../types';
+import { toSchemaValues } from './form-values';
+import { fromFormData } from './form-data';
+import { getIssues } from './zod-introspection';
+
+/**
+ * Server actions for `ZodForm`
+ *
+ * An action made with `createZodFormAction` reads the posted `FormData` with the
+ * schema, validates it and returns a `ZodFormActionState`. Pass the action through
+ * `useActionState` and hand both results to `ZodForm` (`action` and `actionState`):
+ * the form shows the returned errors on their fields, and posts natively when
+ * JavaScript isn't available.
+ */
+
+export const initialActionState: ZodFormActionState = { status: 'idle' };
+
+// Files can't be sent back to the client, so a refilled form leaves them empty
+const withoutFiles = (value: any): any => {
+  if (typeof File !== 'undefined' && value instanceof File) return undefined;
+  if (Array.isArray(value)) return value.map(withoutFiles);
+  if (value !== null && typeof value === 'object' && !(value instanceof Date)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entryValue]) => [key, withoutFiles(entryValue)])
+    );
+  }
+  return value;
+};
+
+/**
+ * Create a server action that validates submissions against a schema
+ *
+ * The handler only runs for valid data. Issues are returned as `fieldErrors` (the
+ * first message per dotted path) and `formErrors` (issues about the whole form), along
+ * with the submitted values so the form can be refilled.
+ *
+ * @example
+ * ```ts
+ * 'use server';
+ * export const signUp = createZodFormAction(userSchema, async data => {
+ *   await db.users.create(data);
+ * });
+ * ```
+ */
+export const createZodFormAction = <T extends AnyZodSchema, TResult = void>(
+  schema: T,
+  handler: (data: FormData<T>, formData: globalThis.FormData) => TResult | Promise<TResult>
+) => {
+  return async (
+    _state: ZodFormActionState<TResult>,
+    formData: globalThis.FormData
+  ): Promise<ZodFormActionState<TResult>> => {
+    const values = fromFormData(schema, formData);
+    const result = await (schema as z.ZodTypeAny).safeParseAsync(toSchemaValues(schema, values));
+
+    if (!result.success) {
+      const fieldErrors: Record<string, string> = {};
+      const formErrors: string[] = [];
+
+      getIssues(result.error).forEach(issue => {
+        const path = issue.path.join('.');
+        if (!path) {
+          formErrors.push(issue.message);
+        } else if (!fieldErrors[path]) {
+          fieldErrors[path] = issue.message;
+        }
+      });
+
+      return { status: 'error', fieldErrors, formErrors, values: withoutFiles(values) };
+    }
+
+    return { status: 'success', result: await handler(result.data, formData) };
+  };
+};
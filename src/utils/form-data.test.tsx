@@ -0,0 +1,119 @@
+import React from 'react';
+import { render } from '@testing-library/react';
+import { z } from 'zod';
+import { ZodForm } from '../components/ZodForm';
+import { toFormData, fromFormData } from './form-data';
+import { toSchemaValues } from './form-values';
+
+const entries = (formData: FormData) =>
+  Array.from(formData.entries()).map(([name, value]) => [
+    name,
+    typeof value === 'string' ? value : value.name,
+  ]);
+
+describe('FormData codec', () => {
+  const schema = z.object({
+    name: z.string(),
+    nickname: z.string().optional(),
+    age: z.number().int(),
+    height: z.number().nullable(),
+    birthday: z.date(),
+    subscribed: z.boolean(),
+    verified: z.boolean(),
+    role: z.enum(['admin', 'viewer']),
+    interests: z.array(z.enum(['music', 'sport', 'travel'])),
+    tags: z.set(z.string()),
+    items: z.array(z.object({ name: z.string(), quantity: z.number() })),
+    point: z.tuple([z.number(), z.number()]),
+    limits: z.map(z.string(), z.number()),
+  });
+
+  const values = {
+    name: 'Ada',
+    nickname: undefined,
+    age: 36,
+    height: null,
+    birthday: new Date('1990-12-10'),
+    subscribed: true,
+    verified: false,
+    role: 'admin' as const,
+    interests: ['music' as const, 'travel' as const],
+    tags: new Set(['a', 'b']),
+    items: [
+      { name: 'Nuts', quantity: 10 },
+      { name: 'Bolts', quantity: 20 },
+    ],
+    point: [51.5, -0.1] as [number, number],
+    limits: new Map([['daily', 5]]),
+  };
+
+  it('should encode values under dotted and indexed names', () => {
+    expect(entries(toFormData(schema, values))).toEqual([
+      ['name', 'Ada'],
+      ['nickname', ''],
+      ['age', '36'],
+      ['height', ''],
+      ['birthday', '1990-12-10'],
+      ['subscribed', 'true'],
+      ['role', 'admin'],
+      ['interests', 'music'],
+      ['interests', 'travel'],
+      ['tags', 'a'],
+      ['tags', 'b'],
+      ['items.0.name', 'Nuts'],
+      ['items.0.quantity', '10'],
+      ['items.1.name', 'Bolts'],
+      ['items.1.quantity', '20'],
+      ['point.0', '51.5'],
+      ['point.1', '-0.1'],
+      ['limits.daily', '5'],
+    ]);
+  });
+
+  it('should decode what it encodes', () => {
+    const decoded = fromFormData(schema, toFormData(schema, values));
+
+    expect(toSchemaValues(schema, decoded)).toEqual({ ...values, nickname: undefined });
+    expect(schema.safeParse(toSchemaValues(schema, decoded)).success).toBe(true);
+  });
+
+  it('should decode the FormData a rendered form posts', () => {
+    const { container } = render(
+      <ZodForm schema={schema} defaultValues={values} onSubmit={jest.fn()} />
+    );
+
+    const decoded = fromFormData(schema, new FormData(container.querySelector('form')!));
+
+    expect(toSchemaValues(schema, decoded)).toEqual({ ...values, nickname: undefined });
+  });
+
+  it('should keep chosen files and leave out empty file inputs', () => {
+    const upload = z.object({
+      avatar: z.instanceof(File).optional(),
+      attachments: z.array(z.instanceof(File)),
+    });
+    const avatar = new File(['png'], 'avatar.png', { type: 'image/png' });
+
+    const formData = toFormData(upload, { avatar, attachments: [] });
+    formData.append('attachments', new File([], ''));
+
+    expect(entries(formData)).toEqual([
+      ['avatar', 'avatar.png'],
+      ['attachments', ''],
+    ]);
+    expect(fromFormData(upload, formData)).toEqual({ avatar, attachments: [] });
+  });
+
+  it('should decode discriminated unions and records by their names', () => {
+    const contact = z.object({
+      method: z.discriminatedUnion('type', [
+        z.object({ type: z.literal('email'), address: z.string() }),
+        z.object({ type: z.literal('phone'), number: z.string(), ext: z.number().optional() }),
+      ]),
+      scores: z.record(z.string(), z.number()),
+    });
+    const value = { method: { type: 'phone' as const, number: '555', ext: 12 }, scores: { a: 1 } };
+
+    expect(fromFormData(contact, toFormData(contact, value))).toEqual(value);
+  });
+});
@@ -0,0 +1,298 @@
+import { AnyZodSchema } from '../types';
+import {
+  unwrapSchema,
+  mapZodTypeToFieldType,
+  matchUnionMember,
+  validateWithSchema,
+} from './schema-parser';
+import { toSchemaValues, toFormValues } from './form-values';
+import { getValueCodec } from './value-codecs';
+import {
+  SchemaKind,
+  getSchemaKind,
+  getObjectShape,
+  getArrayElement,
+  getTupleItems,
+  getValueType,
+  getUnionOptions,
+  getEnumValues,
+  getDiscriminator,
+  getDiscriminatedVariants,
+  getDiscriminatedVariant,
+} from './zod-introspection';
+
+/**
+ * Conversions between `FormData` and the values of a schema
+ *
+ * Fields post under their dotted paths (`items.0.name`), so entries are grouped into
+ * nested objects by name and then walked together with the schema, which decides how
+ * each string is read: numbers, dates, booleans and enum members are converted the same
+ * way their inputs convert them in the browser. Lists of plain values post one entry
+ * per item under the same name, like a group of checkboxes.
+ */
+
+type EntryTree = { [key: string]: EntryTree | string | File | Array<string | File> };
+
+const BOOLEAN_TRUE_VALUES = ['true', 'on', '1'];
+
+// Schemas posted as several entries rather than one
+const CONTAINER_KINDS: SchemaKind[] = [
+  'object',
+  'array',
+  'set',
+  'tuple',
+  'record',
+  'map',
+  'discriminatedUnion',
+  'union',
+];
+
+const isPlainObject = (value: any): value is Record<string, any> =>
+  value !== null && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype;
+
+// Framework fields, e.g. the `$ACTION_ID_...` inputs React adds for server actions
+const isInternalName = (name: string) => name.startsWith('$ACTION');
+
+// Group entries by dotted name; a name posted more than once collects its values in order
+const toEntryTree = (formData: globalThis.FormData): EntryTree => {
+  const tree: EntryTree = {};
+
+  formData.forEach((value, name) => {
+    if (isInternalName(name)) return;
+
+    const segments = name.split('.');
+    const key = segments.pop() as string;
+    let node = tree;
+
+    for (const segment of segments) {
+      if (!isPlainObject(node[segment])) node[segment] = {};
+      node = node[segment] as EntryTree;
+    }
+
+    const existing = node[key];
+    if (existing === undefined || isPlainObject(existing)) {
+      node[key] = value;
+    } else {
+      node[key] = ([] as Array<string | File>).concat(existing as string | File, value);
+    }
+  });
+
+  return tree;
+};
+
+// Indexed entries (`items.0`, `items.1`) or repeated values as a list
+const toList = (raw: any): any[] => {
+  if (raw === undefined) return [];
+  if (Array.isArray(raw)) return raw;
+  if (!isPlainObject(raw)) return [raw];
+
+  return Object.keys(raw)
+    .filter(key => /^\d+$/.test(key))
+    .sort((a, b) => Number(a) - Number(b))
+    .map(key => raw[key]);
+};
+
+// A file input left empty posts a nameless, empty file
+const isEmptyFile = (value: any): boolean =>
+  typeof File !== 'undefined' && value instanceof File && value.name === '' && value.size === 0;
+
+// Posted values are strings whichever component edits the field, so read them as inputs do
+const getFieldCodec = (zodType: AnyZodSchema) =>
+  getValueCodec(
+    zodType,
+    mapZodTypeToFieldType(zodType).type === 'datetime-local' ? 'datetime-local' : 'text'
+  );
+
+const readBoolean = (raw: any): boolean =>
+  toList(raw).some(value => typeof value === 'string' && BOOLEAN_TRUE_VALUES.includes(value));
+
+// Read the entries posted for a schema as form state
+const readValue = (zodType: AnyZodSchema, raw: any): any => {
+  const inner = unwrapSchema(zodType);
+  const kind = getSchemaKind(inner);
+
+  switch (kind) {
+    // Unchecked checkboxes post nothing
+    case 'boolean':
+      return readBoolean(raw);
+
+    case 'object': {
+      if (raw === undefined && validateWithSchema(zodType, undefined).success) return undefined;
+
+      const source = isPlainObject(raw) ? raw : {};
+      const values: Record<string, any> = {};
+      Object.entries(getObjectShape(inner)).forEach(([key, fieldSchema]) => {
+        const value = readValue(fieldSchema, source[key]);
+        if (value !== undefined) values[key] = value;
+      });
+      return values;
+    }
+
+    case 'array':
+    case 'set': {
+      const element = kind === 'array' ? getArrayElement(inner) : getValueType(inner);
+      return toList(raw)
+        .filter(item => !isEmptyFile(item))
+        .map(item => readValue(element, item));
+    }
+
+    case 'tuple': {
+      const { items, rest } = getTupleItems(inner);
+      const list = toList(raw);
+      const length = Math.max(items.length, list.length);
+
+      return Array.from({ length }, (_, index) => {
+        const itemSchema = items[index] ?? rest;
+        return itemSchema ? readValue(itemSchema, list[index]) : list[index];
+      });
+    }
+
+    case 'record':
+    case 'map': {
+      if (!isPlainObject(raw)) return raw;
+
+      return Object.fromEntries(
+        Object.entries(raw).map(([key, value]) => [key, readValue(getValueType(inner), value)])
+      );
+    }
+
+    case 'discriminatedUnion': {
+      const discriminator = getDiscriminator(inner);
+      const variant = getDiscriminatedVariants(inner).find(
+        ([value]) => String(value) === String(raw?.[discriminator])
+      );
+      return variant ? readValue(variant[1], raw) : raw;
+    }
+
+    case 'union': {
+      const options = getUnionOptions(inner);
+      const candidates = options.map(option => readValue(option, raw));
+      const index = options.findIndex(
+        (option, i) => validateWithSchema(option, toSchemaValues(option, candidates[i])).success
+      );
+      return candidates[index === -1 ? 0 : index];
+    }
+
+    case 'enum':
+    case 'nativeEnum':
+    case 'literal': {
+      if (raw === undefined) return undefined;
+      if (raw === '') return getFieldCodec(zodType).parse('');
+
+      const match = getEnumValues(inner).find(value => String(value) === String(raw));
+      return match === undefined ? raw : match;
+    }
+  }
+
+  if (isEmptyFile(raw)) return undefined;
+  if (raw === undefined || typeof raw !== 'string') return raw;
+
+  return getFieldCodec(zodType).parse(raw);
+};
+
+const joinName = (name: string, key: string | number) => (name ? `${name}.${key}` : String(key));
+
+// Append the entries a field's inputs would post for a value in form state
+const appendValue = (
+  formData: globalThis.FormData,
+  zodType: AnyZodSchema,
+  name: string,
+  value: any
+): void => {
+  const inner = unwrapSchema(zodType);
+  const kind = getSchemaKind(inner);
+
+  if (value === undefined || value === null) {
+    // An empty input; empty containers, unchecked checkboxes and file inputs post nothing
+    if (!CONTAINER_KINDS.includes(kind) && kind !== 'boolean' && kind !== 'file') {
+      formData.append(name, '');
+    }
+    return;
+  }
+
+  // Files post as they are, whichever schema declares them
+  if (value instanceof Blob) {
+    formData.append(name, value);
+    return;
+  }
+
+  switch (kind) {
+    case 'boolean':
+      if (value === true) formData.append(name, 'true');
+      return;
+
+    case 'object': {
+      Object.entries(getObjectShape(inner)).forEach(([key, fieldSchema]) =>
+        appendValue(formData, fieldSchema, joinName(name, key), value[key])
+      );
+      return;
+    }
+
+    case 'array':
+    case 'set': {
+      const element = kind === 'array' ? getArrayElement(inner) : getValueType(inner);
+      const isPlainList = !CONTAINER_KINDS.includes(getSchemaKind(unwrapSchema(element)));
+
+      Array.from(value as any[]).forEach((item, index) =>
+        appendValue(formData, element, isPlainList ? name : joinName(name, index), item)
+      );
+      return;
+    }
+
+    case 'tuple': {
+      const { items, rest } = getTupleItems(inner);
+      (value as any[]).forEach((item, index) => {
+        const itemSchema = items[index] ?? rest;
+        if (itemSchema) appendValue(formData, itemSchema, joinName(name, index), item);
+      });
+      return;
+    }
+
+    case 'record':
+    case 'map': {
+      Object.entries(value).forEach(([key, entryValue]) =>
+        appendValue(formData, getValueType(inner), joinName(name, key), entryValue)
+      );
+      return;
+    }
+
+    case 'discriminatedUnion': {
+      const variant = getDiscriminatedVariant(inner, value[getDiscriminator(inner)]);
+      if (variant) appendValue(formData, variant, name, value);
+      return;
+    }
+
+    case 'union': {
+      const options = getUnionOptions(inner);
+      appendValue(formData, options[matchUnionMember(options, value)], name, value);
+      return;
+    }
+  }
+
+  formData.append(name, String(getFieldCodec(zodType).format(value)));
+};
+
+/**
+ * Encode values as the `FormData` the schema's form would post
+ *
+ * Accepts schema values (with `Set`s and `Map`s) or form state. Dates and numbers are
+ * formatted as their inputs show them, `false` and empty lists are left out (as
+ * unchecked checkboxes are) and empty values post as empty strings.
+ */
+export const toFormData = (schema: AnyZodSchema, values: any): globalThis.FormData => {
+  const formData = new globalThis.FormData();
+  appendValue(formData, schema, '', toFormValues(schema, values));
+  return formData;
+};
+
+/**
+ * Read submitted `FormData` as the form state of a schema
+ *
+ * Names are split on dots into nested objects, and numeric segments into array items.
+ * The result has the nested shape the schema describes, with arrays in place of sets
+ * and plain objects in place of maps; pass it through `toSchemaValues` to validate.
+ * Empty inputs become `undefined` or `null` as in the form, missing checkboxes
+ * `false` and empty file inputs are left out.
+ */
+export const fromFormData = (schema: AnyZodSchema, formData: globalThis.FormData): any =>
+  readValue(schema, toEntryTree(formData));
@@ -0,0 +1,121 @@
+import { z } from 'zod';
+import { fromFormSpec, toFormSpec } from './form-spec';
+import { withField } from './field-metadata';
+import { generateMockData } from './mock-data';
+import { flattenFields, parseSchema } from './schema-parser';
+
+describe('Form Specs', () => {
+  const schema = z.object({
+    name: withField(z.string().min(2, 'Name is too short').max(40), { label: 'Full name' }),
+    email: z.string().email(),
+    zip: z.string().regex(/^\d{5}$/i),
+    age: z.number().int().gt(17).optional(),
+    budget: z.bigint().min(BigInt(10)),
+    startDate: z.date().min(new Date('2024-01-01')).default(new Date('2024-06-01')),
+    plan: z.enum(['free', 'pro', 'team']).default('free'),
+    seats: withField(z.number().min(1).max(50), {
+      showWhen: { field: 'plan', value: 'team' },
+      colSpan: 2,
+    }),
+    tags: z.array(z.string().max(10)).min(1).max(3),
+    labels: z.set(z.enum(['red', 'blue'])).default(new Set(['red'] as const)),
+    address: z.object({ city: z.string(), country: z.string().length(2).nullable() }),
+    point: z.tuple([z.number(), z.number()]),
+    scores: z.record(z.string(), z.number()),
+    ports: z.map(z.number(), z.string()),
+    contact: z.discriminatedUnion('channel', [
+      z.object({ channel: z.literal('email'), address: z.string().email() }),
+      z.object({ channel: z.literal('sms'), number: z.string().min(7) }),
+    ]),
+    id: z.union([z.string().uuid(), z.number().int()]),
+    size: z.union([z.literal('s'), z.literal('m'), z.literal('l')]),
+  });
+
+  const spec = toFormSpec(schema, { layout: 'grid', layoutConfig: { layout: 'grid', columns: 2 } });
+
+  it('should be plain JSON', () => {
+    expect(JSON.parse(JSON.stringify(spec))).toEqual(spec);
+  });
+
+  it('should describe fields, rules, config and conditions', () => {
+    const fields = Object.fromEntries(spec.fields.map(field => [field.name, field]));
+
+    expect(spec.layout).toBe('grid');
+    expect(fields.name).toMatchObject({
+      kind: 'string',
+      type: 'text',
+      required: true,
+      config: { label: 'Full name' },
+      rules: [
+        { kind: 'min', value: 2, message: 'Name is too short' },
+        { kind: 'max', value: 40 },
+      ],
+    });
+    expect(fields.zip.rules).toEqual([{ kind: 'regex', value: '^\\d{5}$', flags: 'i' }]);
+    expect(fields.age).toMatchObject({ required: false, type: 'number' });
+    expect(fields.budget.rules).toEqual([
+      { kind: 'min', value: { $bigint: '10' }, inclusive: true },
+    ]);
+    expect(fields.startDate.defaultValue).toEqual({ $date: '2024-06-01T00:00:00.000Z' });
+    expect(fields.labels.defaultValue).toEqual(['red']);
+    expect(fields.seats.config).toMatchObject({
+      showWhen: { field: 'plan', value: 'team' },
+      colSpan: 2,
+    });
+    expect(fields.tags.item).toMatchObject({ kind: 'string', rules: [{ kind: 'max', value: 10 }] });
+    expect(fields.address.fields!.map(field => field.name)).toEqual(['city', 'country']);
+    expect(fields.address.fields![1]).toMatchObject({ nullable: true, required: true });
+    expect(fields.contact.variants!.map(variant => variant.value)).toEqual(['email', 'sms']);
+    expect(fields.size.members!.map(member => member.values)).toEqual([['s'], ['m'], ['l']]);
+  });
+
+  it('should rebuild a schema that validates the same data', () => {
+    const { schema: rebuilt } = fromFormSpec(JSON.parse(JSON.stringify(spec)));
+
+    for (let seed = 1; seed <= 10; seed++) {
+      const data = generateMockData(schema, { seed });
+      expect(rebuilt.safeParse(data).success).toBe(true);
+    }
+
+    const valid = generateMockData(schema, { seed: 1 });
+    const invalid = [
+      { ...valid, name: 'A' },
+      { ...valid, zip: '1234' },
+      { ...valid, age: 17 },
+      { ...valid, budget: BigInt(9) },
+      { ...valid, tags: [] },
+      { ...valid, contact: { channel: 'sms', number: '1' } },
+      { ...valid, address: { city: 'Paris', country: 'FRA' } },
+    ];
+    invalid.forEach(data => {
+      expect(rebuilt.safeParse(data).success).toBe(schema.safeParse(data).success);
+    });
+
+    const result = rebuilt.safeParse({ ...valid, name: 'A' });
+    expect(!result.success && result.error.issues[0].message).toBe('Name is too short');
+  });
+
+  it('should rebuild a schema that parses into the same fields', () => {
+    const summarize = (fields: ReturnType<typeof parseSchema>) =>
+      Object.fromEntries(
+        Object.entries(flattenFields(fields)).map(([path, field]) => [
+          path,
+          { type: field.type, required: field.required, label: field.config.label },
+        ])
+      );
+
+    const { schema: rebuilt, config } = fromFormSpec(spec);
+
+    expect(summarize(parseSchema(rebuilt))).toEqual(summarize(parseSchema(schema)));
+    expect(parseSchema(rebuilt).startDate.defaultValue).toEqual(new Date('2024-06-01'));
+    expect(config).toEqual({ layout: 'grid', layoutConfig: { layout: 'grid', columns: 2 } });
+  });
+
+  it('should reject recursive schemas and unknown versions', () => {
+    type Node = { children: Node[] };
+    const node: z.ZodType<Node> = z.lazy(() => z.object({ children: z.array(node) }));
+
+    expect(() => toFormSpec(z.object({ root: node }))).toThrow('Recursive');
+    expect(() => fromFormSpec({ ...spec, version: 2 as 1 })).toThrow('Unsupported FormSpec');
+  });
+});
@@ -0,0 +1,538 @@
+import { z } from 'zod';
+import {
+  AnyZodSchema,
+  FieldAnalysis,
+  FieldConfig,
+  Layout,
+  LayoutConfig,
+  ParseOptions,
+  ZodFormConfig,
+} from '../types';
+import { withField } from './field-metadata';
+import { toFormValues, toSchemaValues } from './form-values';
+import { analyzeField, parseSchema } from './schema-parser';
+import {
+  getArrayElement,
+  getChecks,
+  getDefaultValue,
+  getDiscriminatedVariants,
+  getEnumValues,
+  getInnerSchema,
+  getKeyType,
+  getSchemaKind,
+  getUnionOptions,
+  getValueType,
+  SchemaCheck,
+  SchemaKind,
+} from './zod-introspection';
+
+/**
+ * Serializable form specifications
+ *
+ * A `FormSpec` describes a form as plain JSON, so form definitions can be stored (e.g.
+ * in a database) and rendered at runtime. It is generated from the parsed fields of a
+ * Zod schema and turned back into a Zod schema with `fromFormSpec`. Refinements and
+ * transforms are code, so they are not part of a spec.
+ */
+
+export const FORM_SPEC_VERSION = 1;
+
+// Schema kinds a spec node can have; wrappers become `required`, `nullable` and `defaultValue`
+export type SpecKind = Exclude<
+  SchemaKind,
+  'optional' | 'nullable' | 'default' | 'effects' | 'lazy'
+>;
+
+/**
+ * A validation rule, i.e. a schema check in JSON form
+ */
+export interface ValidationRuleSpec {
+  kind: string;
+  // Bound, length or affix; patterns for `regex` rules; dates as timestamps
+  value?: any;
+  flags?: string;
+  inclusive?: boolean;
+  version?: string;
+  precision?: number | null;
+  offset?: boolean;
+  local?: boolean;
+  message?: string;
+}
+
+/**
+ * A schema node: its kind, how it is rendered and what it contains
+ */
+export interface SchemaSpec {
+  kind: SpecKind;
+  // A field type, or the name of a custom component
+  type: NonNullable<FieldConfig['type']>;
+  // Whether a value must be present; `false` for optional schemas
+  required: boolean;
+  nullable?: boolean;
+  defaultValue?: any;
+  rules?: ValidationRuleSpec[];
+  config?: FieldConfig;
+
+  // Enum, native enum and literal values
+  values?: Array<string | number | boolean>;
+
+  // Object properties and tuple items (named by index)
+  fields?: FieldSpec[];
+
+  // Array and set items
+  item?: SchemaSpec;
+
+  // Record and map entries
+  key?: SchemaSpec;
+  value?: SchemaSpec;
+
+  // Union members
+  members?: SchemaSpec[];
+
+  // Discriminated union variants, without the discriminator itself
+  discriminator?: string;
+  variants?: Array<{ value: string | number; fields: FieldSpec[] }>;
+}
+
+export interface FieldSpec extends SchemaSpec {
+  name: string;
+}
+
+export interface FormSpec {
+  version: typeof FORM_SPEC_VERSION;
+  fields: FieldSpec[];
+  layout?: Layout;
+  layoutConfig?: LayoutConfig;
+}
+
+export interface FormSpecOptions extends ParseOptions {
+  layout?: Layout;
+  layoutConfig?: LayoutConfig;
+}
+
+// Field config that is plain data; nested fields are part of the spec tree instead
+const SPEC_CONFIG_KEYS: Array<keyof FieldConfig> = [
+  'label',
+  'placeholder',
+  'description',
+  'hint',
+  'hidden',
+  'disabled',
+  'readOnly',
+  'documentUpload',
+  'imageUpload',
+  'imagePreview',
+  'accept',
+  'maxStars',
+  'starIcon',
+  'addButtonText',
+  'removeButtonText',
+  'options',
+  'step',
+  'rows',
+  'order',
+  'colSpan',
+  'rowSpan',
+  'className',
+  'containerClassName',
+  'labelClassName',
+  'showWhen',
+];
+
+// JSON has no dates or bigints, so specs store them as tagged objects
+const encodeValue = (value: any): any => {
+  if (value instanceof Date) return { $date: value.toISOString() };
+  if (typeof value === 'bigint') return { $bigint: String(value) };
+  if (Array.isArray(value)) return value.map(encodeValue);
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entryValue]) => [key, encodeValue(entryValue)])
+    );
+  }
+  return value;
+};
+
+const decodeValue = (value: any): any => {
+  if (Array.isArray(value)) return value.map(decodeValue);
+  if (value !== null && typeof value === 'object') {
+    if (typeof value.$date === 'string') return new Date(value.$date);
+    if (typeof value.$bigint === 'string') return BigInt(value.$bigint);
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entryValue]) => [key, decodeValue(entryValue)])
+    );
+  }
+  return value;
+};
+
+const toRuleSpec = ({ regex, ...check }: SchemaCheck): ValidationRuleSpec => {
+  const rule: ValidationRuleSpec = { kind: check.kind };
+
+  Object.entries(check).forEach(([key, value]) => {
+    if (value !== undefined) (rule as any)[key] = encodeValue(value);
+  });
+
+  return regex ? { ...rule, value: regex.source, flags: regex.flags } : rule;
+};
+
+// Strip wrappers, noting what they add; lazy schemas would make the spec infinite
+const readWrappers = (schema: AnyZodSchema) => {
+  let inner = schema;
+  let optional = false;
+  let nullable = false;
+  let defaultValue: any;
+
+  for (let kind = getSchemaKind(inner); ; kind = getSchemaKind(inner)) {
+    if (kind === 'lazy') {
+      throw new Error('Recursive (lazy) schemas cannot be described by a FormSpec');
+    }
+    if (kind === 'optional') optional = true;
+    if (kind === 'nullable') nullable = true;
+    if (kind === 'default' && defaultValue === undefined) defaultValue = getDefaultValue(inner);
+
+    const next = getInnerSchema(inner);
+    if (!next) break;
+    inner = next;
+  }
+
+  return { inner, optional, nullable, defaultValue };
+};
+
+const toSchemaSpec = (analysis: FieldAnalysis, options: ParseOptions): SchemaSpec => {
+  const { inner, optional, nullable, defaultValue } = readWrappers(analysis.schema);
+  const kind = getSchemaKind(inner) as SpecKind;
+  const { path } = analysis;
+
+  const spec: SchemaSpec = {
+    kind,
+    type: analysis.config.type ?? analysis.type,
+    required: !optional,
+  };
+  if (nullable) spec.nullable = true;
+  if (defaultValue !== undefined) {
+    spec.defaultValue = encodeValue(toFormValues(inner, defaultValue));
+  }
+
+  const rules = getChecks(inner).map(toRuleSpec);
+  if (rules.length) spec.rules = rules;
+
+  const config: FieldConfig = {};
+  SPEC_CONFIG_KEYS.forEach(key => {
+    if (analysis.config[key] !== undefined) (config as any)[key] = analysis.config[key];
+  });
+  if (Object.keys(config).length) spec.config = config;
+
+  // Child schemas are analyzed at the paths ZodForm renders them at
+  const child = (name: string, schema: AnyZodSchema) =>
+    toSchemaSpec(analyzeField(name, schema, path, options), options);
+
+  switch (kind) {
+    case 'enum':
+    case 'nativeEnum':
+    case 'literal':
+      spec.values = getEnumValues(inner);
+      break;
+    case 'object':
+    case 'tuple':
+      spec.fields = Object.values(analysis.config.fields || {}).map(field =>
+        toFieldSpec(field, options)
+      );
+      break;
+    case 'array':
+      spec.item = child('0', getArrayElement(inner));
+      break;
+    case 'set':
+      spec.item = child('0', getValueType(inner));
+      break;
+    case 'record':
+    case 'map':
+      spec.key = child('key', getKeyType(inner));
+      spec.value = child('value', getValueType(inner));
+      break;
+    case 'union': {
+      // Unions of literals render as options and have no analyzed members
+      const parentPath = path.slice(0, Math.max(path.lastIndexOf('.'), 0));
+      const members =
+        analysis.config.members ||
+        getUnionOptions(inner).map(option =>
+          analyzeField(analysis.name, option, parentPath, options)
+        );
+      spec.members = members.map(member => toSchemaSpec(member, options));
+      break;
+    }
+    case 'discriminatedUnion': {
+      spec.discriminator = analysis.config.discriminator;
+      spec.variants = getDiscriminatedVariants(inner).map(([value]) => ({
+        value,
+        fields: Object.values(analysis.config.variants?.[String(value)] || {}).map(field =>
+          toFieldSpec(field, options)
+        ),
+      }));
+      break;
+    }
+  }
+
+  return spec;
+};
+
+const toFieldSpec = (analysis: FieldAnalysis, options: ParseOptions): FieldSpec => ({
+  name: analysis.name,
+  ...toSchemaSpec(analysis, options),
+});
+
+/**
+ * Describe an object schema as a serializable `FormSpec`
+ *
+ * Fields are described as the parser sees them, including `withField` metadata, field
+ * mappers and conditions (`showWhen`). Throws for recursive schemas.
+ */
+export const toFormSpec = (schema: AnyZodSchema, options: FormSpecOptions = {}): FormSpec => {
+  const { layout, layoutConfig, ...parseOptions } = options;
+
+  const spec: FormSpec = {
+    version: FORM_SPEC_VERSION,
+    fields: Object.values(parseSchema(schema, '', parseOptions)).map(field =>
+      toFieldSpec(field, parseOptions)
+    ),
+  };
+  if (layout) spec.layout = layout;
+  if (layoutConfig) spec.layoutConfig = layoutConfig;
+
+  return spec;
+};
+
+const applyStringRules = (schema: z.ZodString, rules: ValidationRuleSpec[]): z.ZodString =>
+  rules.reduce((current, rule) => {
+    const message = rule.message;
+
+    switch (rule.kind) {
+      case 'min':
+        return current.min(rule.value, message);
+      case 'max':
+        return current.max(rule.value, message);
+      case 'length':
+        return current.length(rule.value, message);
+      case 'regex':
+        return current.regex(new RegExp(rule.value, rule.flags), message);
+      case 'startsWith':
+        return current.startsWith(rule.value, message);
+      case 'endsWith':
+        return current.endsWith(rule.value, message);
+      case 'includes':
+        return current.includes(rule.value, { message });
+      case 'email':
+      case 'url':
+      case 'uuid':
+      case 'cuid':
+      case 'cuid2':
+      case 'ulid':
+      case 'nanoid':
+      case 'emoji':
+      case 'date':
+      case 'duration':
+      case 'base64':
+        return current[rule.kind](message);
+      case 'datetime':
+        return current.datetime({
+          precision: rule.precision,
+          offset: rule.offset,
+          local: rule.local,
+          message,
+        });
+      case 'time':
+        return current.time({ precision: rule.precision, message });
+      case 'ip':
+        return current.ip({ version: rule.version as 'v4' | 'v6' | undefined, message });
+      case 'trim':
+      case 'toLowerCase':
+      case 'toUpperCase':
+        return current[rule.kind]();
+      default:
+        return current;
+    }
+  }, schema);
+
+const applyNumberRules = (schema: z.ZodNumber, rules: ValidationRuleSpec[]): z.ZodNumber =>
+  rules.reduce((current, rule) => {
+    const message = rule.message;
+
+    switch (rule.kind) {
+      case 'min':
+        return rule.inclusive === false
+          ? current.gt(rule.value, message)
+          : current.gte(rule.value, message);
+      case 'max':
+        return rule.inclusive === false
+          ? current.lt(rule.value, message)
+          : current.lte(rule.value, message);
+      case 'int':
+        return current.int(message);
+      case 'multipleOf':
+        return current.multipleOf(rule.value, message);
+      case 'finite':
+        return current.finite(message);
+      default:
+        return current;
+    }
+  }, schema);
+
+const applyBigIntRules = (schema: z.ZodBigInt, rules: ValidationRuleSpec[]): z.ZodBigInt =>
+  rules.reduce((current, rule) => {
+    const value = decodeValue(rule.value);
+
+    switch (rule.kind) {
+      case 'min':
+        return rule.inclusive === false
+          ? current.gt(value, rule.message)
+          : current.gte(value, rule.message);
+      case 'max':
+        return rule.inclusive === false
+          ? current.lt(value, rule.message)
+          : current.lte(value, rule.message);
+      case 'multipleOf':
+        return current.multipleOf(value, rule.message);
+      default:
+        return current;
+    }
+  }, schema);
+
+const applyDateRules = (schema: z.ZodDate, rules: ValidationRuleSpec[]): z.ZodDate =>
+  rules.reduce((current, rule) => {
+    switch (rule.kind) {
+      case 'min':
+        return current.min(new Date(rule.value), rule.message);
+      case 'max':
+        return current.max(new Date(rule.value), rule.message);
+      default:
+        return current;
+    }
+  }, schema);
+
+const applyArrayRules = (schema: z.ZodArray<any>, rules: ValidationRuleSpec[]) =>
+  rules.reduce((current, rule) => {
+    switch (rule.kind) {
+      case 'min':
+        return current.min(rule.value, rule.message);
+      case 'max':
+        return current.max(rule.value, rule.message);
+      case 'length':
+        return current.length(rule.value, rule.message);
+      default:
+        return current;
+    }
+  }, schema);
+
+const applySetRules = (schema: z.ZodSet<any>, rules: ValidationRuleSpec[]) =>
+  rules.reduce((current, rule) => {
+    switch (rule.kind) {
+      case 'min':
+        return current.min(rule.value, rule.message);
+      case 'max':
+        return current.max(rule.value, rule.message);
+      default:
+        return current;
+    }
+  }, schema);
+
+const buildObject = (fields: FieldSpec[]): z.AnyZodObject =>
+  z.object(Object.fromEntries(fields.map(field => [field.name, fromSchemaSpec(field)])));
+
+const toTuple = <T>(items: T[]) => items as [T, ...T[]];
+
+// The schema for a spec node without its wrappers
+const buildSchema = (spec: SchemaSpec): z.ZodTypeAny => {
+  const rules = spec.rules || [];
+
+  switch (spec.kind) {
+    case 'string':
+      return applyStringRules(z.string(), rules);
+    case 'number':
+      return applyNumberRules(z.number(), rules);
+    case 'bigint':
+      return applyBigIntRules(z.bigint(), rules);
+    case 'boolean':
+      return z.boolean();
+    case 'date':
+      return applyDateRules(z.date(), rules);
+    case 'enum':
+    case 'nativeEnum':
+    case 'literal': {
+      const values = spec.values || [];
+      if (spec.kind === 'enum' && values.every(value => typeof value === 'string')) {
+        return z.enum(toTuple(values as string[]));
+      }
+      const literals = values.map(value => z.literal(value));
+      return literals.length === 1
+        ? literals[0]
+        : z.union(literals as unknown as [z.ZodTypeAny, z.ZodTypeAny, ...z.ZodTypeAny[]]);
+    }
+    case 'object':
+      return buildObject(spec.fields || []);
+    case 'tuple':
+      return z.tuple(toTuple((spec.fields || []).map(fromSchemaSpec)));
+    case 'array':
+      return applyArrayRules(z.array(fromSchemaSpec(spec.item!)), rules);
+    case 'set':
+      return applySetRules(z.set(fromSchemaSpec(spec.item!)), rules);
+    case 'record':
+      return z.record(fromSchemaSpec(spec.key!) as z.ZodString, fromSchemaSpec(spec.value!));
+    case 'map':
+      return z.map(fromSchemaSpec(spec.key!), fromSchemaSpec(spec.value!));
+    case 'union':
+      return z.union(
+        (spec.members || []).map(fromSchemaSpec) as [z.ZodTypeAny, z.ZodTypeAny, ...z.ZodTypeAny[]]
+      );
+    case 'discriminatedUnion': {
+      const discriminator = spec.discriminator!;
+      const variants = (spec.variants || []).map(variant =>
+        buildObject(variant.fields).extend({ [discriminator]: z.literal(variant.value) })
+      );
+      return z.discriminatedUnion(
+        discriminator,
+        variants as [z.AnyZodObject, z.AnyZodObject, ...z.AnyZodObject[]]
+      );
+    }
+    case 'file':
+      return z.instanceof(File);
+    default:
+      return z.unknown();
+  }
+};
+
+// Build a spec node, with its rendering config attached as field metadata
+const fromSchemaSpec = (spec: SchemaSpec): z.ZodTypeAny => {
+  const inner = withField(buildSchema(spec), { type: spec.type, ...spec.config });
+
+  let schema: z.ZodTypeAny = spec.nullable ? inner.nullable() : inner;
+  if (spec.defaultValue !== undefined) {
+    schema = schema.default(toSchemaValues(inner, decodeValue(spec.defaultValue)));
+  }
+
+  return spec.required ? schema : schema.optional();
+};
+
+/**
+ * Rebuild a Zod schema and form config from a `FormSpec`
+ *
+ * Field types and config are attached to the schema as field metadata, so the schema
+ * renders the same way wherever it is used.
+ *
+ * @example
+ * ```tsx
+ * const { schema, config } = fromFormSpec(await loadSpec('signup'));
+ *
+ * <ZodForm schema={schema} {...config} onSubmit={handleSubmit} />;
+ * ```
+ */
+export const fromFormSpec = (
+  spec: FormSpec
+): { schema: z.AnyZodObject; config: Pick<ZodFormConfig, 'layout' | 'layoutConfig'> } => {
+  if (spec.version !== FORM_SPEC_VERSION) {
+    throw new Error(`Unsupported FormSpec version ${spec.version}`);
+  }
+
+  const config: Pick<ZodFormConfig, 'layout' | 'layoutConfig'> = {};
+  if (spec.layout) config.layout = spec.layout;
+  if (spec.layoutConfig) config.layoutConfig = spec.layoutConfig;
+
+  return { schema: buildObject(spec.fields), config };
+};
@@ -0,0 +1,58 @@
+import { z } from 'zod';
+import { toSchemaValues, toFormValues, coerceMapKey } from './form-values';
+
+describe('Form Values', () => {
+  const schema = z.object({
+    tags: z.set(z.string()),
+    scores: z.map(z.number(), z.string()).optional(),
+    nested: z.array(z.object({ flags: z.set(z.number()) })),
+    point: z.tuple([z.number(), z.number()]),
+  });
+
+  describe('toSchemaValues', () => {
+    it('should convert arrays and objects into Sets and Maps at any depth', () => {
+      const result = toSchemaValues(schema, {
+        tags: ['a', 'b'],
+        scores: { '1': 'one' },
+        nested: [{ flags: [1, 2] }],
+        point: [1, 2],
+      });
+
+      expect(result.tags).toEqual(new Set(['a', 'b']));
+      expect(result.scores).toEqual(new Map([[1, 'one']]));
+      expect(result.nested[0].flags).toEqual(new Set([1, 2]));
+      expect(result.point).toEqual([1, 2]);
+      expect(schema.safeParse(result).success).toBe(true);
+    });
+
+    it('should leave missing values untouched', () => {
+      expect(toSchemaValues(schema, { tags: [], nested: [] }).scores).toBeUndefined();
+    });
+  });
+
+  describe('toFormValues', () => {
+    it('should convert Sets and Maps back into form state', () => {
+      const result = toFormValues(schema, {
+        tags: new Set(['a']),
+        scores: new Map([[2, 'two']]),
+        nested: [{ flags: new Set([3]) }],
+        point: [0, 0],
+      });
+
+      expect(result).toEqual({
+        tags: ['a'],
+        scores: { '2': 'two' },
+        nested: [{ flags: [3] }],
+        point: [0, 0],
+      });
+    });
+  });
+
+  describe('coerceMapKey', () => {
+    it('should convert numeric keys for number key schemas only', () => {
+      expect(coerceMapKey(z.number(), '42')).toBe(42);
+      expect(coerceMapKey(z.number(), 'abc')).toBe('abc');
+      expect(coerceMapKey(z.string(), '42')).toBe('42');
+    });
+  });
+});
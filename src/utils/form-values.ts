@@ -0,0 +1,153 @@
+import { z } from 'zod';
+import { AnyZodSchema } from '../types';
+import { unwrapSchema } from './schema-parser';
+import {
+  getSchemaKind,
+  getObjectShape,
+  getArrayElement,
+  getTupleItems,
+  getKeyType,
+  getValueType,
+  getDiscriminator,
+  getDiscriminatedVariant,
+} from './zod-introspection';
+
+/**
+ * Conversions between form state and the values a Zod schema expects
+ *
+ * Form state only holds JSON-like data: `z.set()` values are edited as arrays and
+ * `z.map()` values as plain objects. These helpers walk the schema to convert in
+ * both directions, leaving everything else untouched.
+ */
+
+const isPlainObject = (value: any): value is Record<string, any> =>
+  value !== null && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype;
+
+const mapValues = (
+  value: Record<string, any>,
+  convert: (entryValue: any, key: string) => any
+): Record<string, any> =>
+  Object.fromEntries(
+    Object.entries(value).map(([key, entryValue]) => [key, convert(entryValue, key)])
+  );
+
+/**
+ * Convert a map key edited as a string back to the key schema's type
+ */
+export const coerceMapKey = (keySchema: z.ZodTypeAny, key: string): any => {
+  const isNumberKey = getSchemaKind(unwrapSchema(keySchema)) === 'number';
+
+  if (isNumberKey && key.trim() !== '' && !isNaN(Number(key))) {
+    return Number(key);
+  }
+
+  return key;
+};
+
+/**
+ * Convert form state into the shape the schema validates, e.g. arrays into `Set`s
+ */
+export const toSchemaValues = (zodType: AnyZodSchema, value: any): any => {
+  if (value === undefined || value === null) return value;
+
+  const inner = unwrapSchema(zodType);
+  const kind = getSchemaKind(inner);
+
+  if (kind === 'set' && Array.isArray(value)) {
+    return new Set(value.map(item => toSchemaValues(getValueType(inner), item)));
+  }
+
+  if (kind === 'map' && isPlainObject(value)) {
+    return new Map(
+      Object.entries(value).map(([key, entryValue]) => [
+        coerceMapKey(getKeyType(inner), key),
+        toSchemaValues(getValueType(inner), entryValue),
+      ])
+    );
+  }
+
+  if (kind === 'object' && isPlainObject(value)) {
+    const shape = getObjectShape(inner);
+    return mapValues(value, (entryValue, key) =>
+      shape[key] ? toSchemaValues(shape[key], entryValue) : entryValue
+    );
+  }
+
+  if (kind === 'record' && isPlainObject(value)) {
+    return mapValues(value, entryValue => toSchemaValues(getValueType(inner), entryValue));
+  }
+
+  if (kind === 'array' && Array.isArray(value)) {
+    return value.map(item => toSchemaValues(getArrayElement(inner), item));
+  }
+
+  if (kind === 'tuple' && Array.isArray(value)) {
+    const { items, rest } = getTupleItems(inner);
+
+    return value.map((item, index) => {
+      const itemSchema = items[index] ?? rest;
+      return itemSchema ? toSchemaValues(itemSchema, item) : item;
+    });
+  }
+
+  if (kind === 'discriminatedUnion' && isPlainObject(value)) {
+    const variant = getDiscriminatedVariant(inner, value[getDiscriminator(inner)]);
+    return variant ? toSchemaValues(variant, value) : value;
+  }
+
+  return value;
+};
+
+/**
+ * Convert schema values into form state, e.g. `Set`s into arrays
+ */
+export const toFormValues = (zodType: AnyZodSchema, value: any): any => {
+  if (value === undefined || value === null) return value;
+
+  const inner = unwrapSchema(zodType);
+  const kind = getSchemaKind(inner);
+
+  if (kind === 'set' && value instanceof Set) {
+    return Array.from(value, item => toFormValues(getValueType(inner), item));
+  }
+
+  if (kind === 'map' && value instanceof Map) {
+    return Object.fromEntries(
+      Array.from(value, ([key, entryValue]) => [
+        String(key),
+        toFormValues(getValueType(inner), entryValue),
+      ])
+    );
+  }
+
+  if (kind === 'object' && isPlainObject(value)) {
+    const shape = getObjectShape(inner);
+    return mapValues(value, (entryValue, key) =>
+      shape[key] ? toFormValues(shape[key], entryValue) : entryValue
+    );
+  }
+
+  if (kind === 'record' && isPlainObject(value)) {
+    return mapValues(value, entryValue => toFormValues(getValueType(inner), entryValue));
+  }
+
+  if (kind === 'array' && Array.isArray(value)) {
+    return value.map(item => toFormValues(getArrayElement(inner), item));
+  }
+
+  if (kind === 'tuple' && Array.isArray(value)) {
+    const { items, rest } = getTupleItems(inner);
+
+    return value.map((item, index) => {
+      const itemSchema = items[index] ?? rest;
+      return itemSchema ? toFormValues(itemSchema, item) : item;
+    });
+  }
+
+  if (kind === 'discriminatedUnion' && isPlainObject(value)) {
+    const variant = getDiscriminatedVariant(inner, value[getDiscriminator(inner)]);
+    return variant ? toFormValues(variant, value) : value;
+  }
+
+  return value;
+};
@@ -0,0 +1,216 @@
+import { fromJsonSchema, JsonSchema, parseJsonSchema } from './json-schema';
+import { flattenFields } from './schema-parser';
+import { getSchemaKind } from './zod-introspection';
+
+describe('JSON Schema import', () => {
+  const userSchema: JsonSchema = {
+    type: 'object',
+    required: ['name', 'email', 'age', 'role', 'address'],
+    properties: {
+      name: { type: 'string', title: 'Full name', minLength: 2, maxLength: 50 },
+      email: { type: 'string', format: 'email', description: 'We never share it' },
+      website: { type: 'string', format: 'uri' },
+      id: { type: 'string', format: 'uuid' },
+      birthday: { type: 'string', format: 'date' },
+      age: { type: 'integer', minimum: 18, exclusiveMaximum: 130 },
+      role: { enum: ['admin', 'editor'] },
+      nickname: { type: ['string', 'null'] },
+      newsletter: { type: 'boolean', default: true },
+      address: { $ref: '#/$defs/address', title: 'Home address' },
+      tags: { type: 'array', items: { type: 'string' }, minItems: 1, maxItems: 3 },
+    },
+    $defs: {
+      address: {
+        type: 'object',
+        required: ['city'],
+        properties: { city: { type: 'string' }, zip: { type: 'string', pattern: '^\\d{5}$' } },
+      },
+    },
+  };
+
+  it('should convert types, constraints and formats', () => {
+    const schema = fromJsonSchema(userSchema);
+    const valid = {
+      name: 'Ada Lovelace',
+      email: 'ada@example.com',
+      website: 'https://example.com',
+      id: '123e4567-e89b-42d3-a456-426614174000',
+      birthday: '1990-12-10',
+      age: 36,
+      role: 'admin',
+      nickname: null,
+      address: { city: 'London', zip: '12345' },
+      tags: ['math'],
+    };
+
+    expect(schema.parse(valid)).toEqual({ ...valid, newsletter: true });
+    expect(schema.safeParse({ ...valid, email: 'nope' }).success).toBe(false);
+    expect(schema.safeParse({ ...valid, age: 17.5 }).success).toBe(false);
+    expect(schema.safeParse({ ...valid, age: 130 }).success).toBe(false);
+    expect(schema.safeParse({ ...valid, role: 'owner' }).success).toBe(false);
+    expect(schema.safeParse({ ...valid, tags: [] }).success).toBe(false);
+    expect(schema.safeParse({ ...valid, address: { city: 'London', zip: 'abc' } }).success).toBe(
+      false
+    );
+  });
+
+  it('should map fields like the equivalent Zod schema', () => {
+    const flat = flattenFields(parseJsonSchema(userSchema));
+
+    expect(flat.name).toMatchObject({
+      type: 'text',
+      required: true,
+      config: { label: 'Full name', minLength: 2, maxLength: 50 },
+    });
+    expect(flat.email).toMatchObject({
+      type: 'email',
+      config: { description: 'We never share it' },
+    });
+    expect(flat.website).toMatchObject({ type: 'url', required: false });
+    expect(flat.birthday.type).toBe('date');
+    expect(flat.age.type).toBe('number');
+    expect(flat.role.config.options).toEqual([
+      { value: 'admin', label: 'Admin' },
+      { value: 'editor', label: 'Editor' },
+    ]);
+    expect(flat.newsletter.type).toBe('checkbox');
+    expect(flat.address).toMatchObject({ type: 'object', config: { label: 'Home address' } });
+    expect(flat['address.city'].required).toBe(true);
+    expect(flat['address.zip'].config.pattern).toEqual(/^\d{5}$/);
+    expect(flat.tags.config).toMatchObject({ minItems: 1, maxItems: 3 });
+  });
+
+  it('should turn oneOf options with a const property into a discriminated union', () => {
+    const schema = fromJsonSchema({
+      oneOf: [
+        {
+          type: 'object',
+          required: ['type', 'address'],
+          properties: { type: { const: 'email' }, address: { type: 'string', format: 'email' } },
+        },
+        {
+          type: 'object',
+          required: ['type', 'number'],
+          properties: { type: { const: 'sms' }, number: { type: 'string' } },
+        },
+      ],
+    });
+
+    expect(getSchemaKind(schema)).toBe('discriminatedUnion');
+    expect(schema.safeParse({ type: 'sms', number: '555' }).success).toBe(true);
+    expect(schema.safeParse({ type: 'sms', address: 'a@b.co' }).success).toBe(false);
+  });
+
+  it('should accept single-value enums as discriminators', () => {
+    const schema = fromJsonSchema({
+      oneOf: [
+        {
+          type: 'object',
+          required: ['kind', 'radius'],
+          properties: { kind: { enum: ['circle'] }, radius: { type: 'number' } },
+        },
+        {
+          type: 'object',
+          required: ['kind', 'side'],
+          properties: { kind: { const: 'square' }, side: { type: 'number' } },
+        },
+      ],
+    });
+
+    expect(getSchemaKind(schema)).toBe('discriminatedUnion');
+    expect(schema.safeParse({ kind: 'circle', radius: 2 }).success).toBe(true);
+    expect(schema.safeParse({ kind: 'circle', side: 2 }).success).toBe(false);
+  });
+
+  it('should convert unions of only null options to null', () => {
+    const schema = fromJsonSchema({ oneOf: [{ type: 'null' }, { type: 'null' }] });
+
+    expect(schema.safeParse(null).success).toBe(true);
+    expect(schema.safeParse('a').success).toBe(false);
+  });
+
+  it('should convert anyOf to a union and null options to nullable', () => {
+    const schema = fromJsonSchema({
+      anyOf: [{ type: 'string' }, { type: 'number' }, { type: 'null' }],
+    });
+
+    expect(getSchemaKind(schema)).toBe('nullable');
+    expect(schema.safeParse('a').success).toBe(true);
+    expect(schema.safeParse(1).success).toBe(true);
+    expect(schema.safeParse(null).success).toBe(true);
+    expect(schema.safeParse(true).success).toBe(false);
+  });
+
+  it('should merge allOf objects', () => {
+    const schema = fromJsonSchema({
+      allOf: [
+        { type: 'object', required: ['id'], properties: { id: { type: 'integer' } } },
+        { type: 'object', properties: { note: { type: 'string' } } },
+      ],
+    });
+
+    expect(getSchemaKind(schema)).toBe('object');
+    expect(schema.safeParse({ id: 1, note: 'x' }).success).toBe(true);
+    expect(schema.safeParse({ note: 'x' }).success).toBe(false);
+  });
+
+  it('should resolve recursive references lazily', () => {
+    const schema = fromJsonSchema({
+      $ref: '#/$defs/category',
+      $defs: {
+        category: {
+          type: 'object',
+          required: ['name'],
+          properties: {
+            name: { type: 'string' },
+            children: { type: 'array', items: { $ref: '#/$defs/category' } },
+          },
+        },
+      },
+    });
+
+    expect(
+      schema.safeParse({ name: 'root', children: [{ name: 'leaf', children: [] }] }).success
+    ).toBe(true);
+    expect(schema.safeParse({ name: 'root', children: [{ children: [] }] }).success).toBe(false);
+  });
+
+  it('should convert dictionaries, tuples and enums of other values', () => {
+    const scores = fromJsonSchema({ type: 'object', additionalProperties: { type: 'number' } });
+    const point = fromJsonSchema({
+      type: 'array',
+      prefixItems: [{ type: 'number' }, { type: 'number' }],
+    });
+    const level = fromJsonSchema({ enum: [1, 2, 3, null] });
+
+    expect(getSchemaKind(scores)).toBe('record');
+    expect(scores.safeParse({ math: 3 }).success).toBe(true);
+    expect(getSchemaKind(point)).toBe('tuple');
+    expect(point.safeParse([1, 2]).success).toBe(true);
+    expect(level.safeParse(2).success).toBe(true);
+    expect(level.safeParse(null).success).toBe(true);
+    expect(level.safeParse(4).success).toBe(false);
+  });
+
+  it('should reject additional properties when they are disallowed', () => {
+    const schema = fromJsonSchema({
+      type: 'object',
+      properties: { name: { type: 'string' } },
+      additionalProperties: false,
+    });
+
+    expect(schema.safeParse({ name: 'a', extra: true }).success).toBe(false);
+  });
+
+  it('should throw for references outside the document', () => {
+    expect(() => fromJsonSchema({ $ref: 'https://example.com/user.json' })).toThrow(
+      'Unsupported $ref'
+    );
+    expect(() => fromJsonSchema({ $ref: '#/$defs/missing' })).toThrow('Unresolved $ref');
+  });
+
+  it('should accept boolean schemas', () => {
+    expect(fromJsonSchema(true).safeParse({ any: 'thing' }).success).toBe(true);
+    expect(fromJsonSchema(false).safeParse('anything').success).toBe(false);
+  });
+});
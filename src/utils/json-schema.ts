@@ -0,0 +1,379 @@
+import { z } from 'zod';
+import { FieldAnalysis, FieldConfig, ParseOptions } from '../types';
+import { withField } from './field-metadata';
+import { parseSchema } from './schema-parser';
+import { getEnumValues, getObjectShape, getSchemaKind } from './zod-introspection';
+
+/**
+ * JSON Schema (draft 2020-12) import
+ *
+ * Converts a JSON Schema into the equivalent Zod schema, so forms defined as JSON
+ * Schema (e.g. request bodies in an OpenAPI spec) go through the same parser and
+ * render with `ZodForm`. `title` and `description` become the field's label and
+ * description. Local `$ref`s (`#/$defs/...`) are resolved, recursive ones lazily.
+ */
+
+export type JsonSchemaType =
+  | 'string'
+  | 'number'
+  | 'integer'
+  | 'boolean'
+  | 'object'
+  | 'array'
+  | 'null';
+
+export interface JsonSchemaObject {
+  $ref?: string;
+  $defs?: Record<string, JsonSchema>;
+  definitions?: Record<string, JsonSchema>;
+  type?: JsonSchemaType | JsonSchemaType[];
+  title?: string;
+  description?: string;
+  default?: any;
+  const?: any;
+  enum?: any[];
+  oneOf?: JsonSchema[];
+  anyOf?: JsonSchema[];
+  allOf?: JsonSchema[];
+
+  // Objects
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: JsonSchema;
+
+  // Arrays
+  items?: JsonSchema;
+  prefixItems?: JsonSchema[];
+  minItems?: number;
+  maxItems?: number;
+
+  // Strings
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  format?: string;
+
+  // Numbers; exclusive bounds are numbers, as in draft 2020-12
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  multipleOf?: number;
+}
+
+// `true` accepts any value and `false` none
+export type JsonSchema = JsonSchemaObject | boolean;
+
+// Converts a JSON Schema node within one root document
+type Convert = (node: JsonSchema) => z.ZodTypeAny;
+
+const isNullSchema = (node: JsonSchema) => typeof node === 'object' && node.type === 'null';
+
+// Resolve a local JSON pointer such as `#/$defs/address` against the root schema
+const resolvePointer = (root: JsonSchema, ref: string): JsonSchema => {
+  if (!ref.startsWith('#')) {
+    throw new Error(`Unsupported $ref "${ref}": only local references are resolved`);
+  }
+
+  return ref
+    .slice(1)
+    .split('/')
+    .filter(Boolean)
+    .map(segment => decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~'))
+    .reduce<any>((node, segment) => {
+      if (node === undefined || typeof node !== 'object' || !(segment in node)) {
+        throw new Error(`Unresolved $ref "${ref}"`);
+      }
+      return node[segment];
+    }, root);
+};
+
+const convertString = (node: JsonSchemaObject): z.ZodTypeAny => {
+  let schema = z.string();
+
+  switch (node.format) {
+    case 'email':
+    case 'idn-email':
+      schema = schema.email();
+      break;
+    case 'uri':
+    case 'iri':
+      schema = schema.url();
+      break;
+    case 'uuid':
+      schema = schema.uuid();
+      break;
+    case 'date-time':
+      schema = schema.datetime({ offset: true });
+      break;
+    case 'date':
+      schema = schema.date();
+      break;
+    case 'time':
+      schema = schema.time();
+      break;
+    case 'duration':
+      schema = schema.duration();
+      break;
+    case 'ipv4':
+      schema = schema.ip({ version: 'v4' });
+      break;
+    case 'ipv6':
+      schema = schema.ip({ version: 'v6' });
+      break;
+  }
+
+  if (node.minLength !== undefined) schema = schema.min(node.minLength);
+  if (node.maxLength !== undefined) schema = schema.max(node.maxLength);
+  if (node.pattern !== undefined) schema = schema.regex(new RegExp(node.pattern));
+
+  return schema;
+};
+
+const convertNumber = (node: JsonSchemaObject, isInteger: boolean): z.ZodTypeAny => {
+  let schema = z.number();
+
+  if (isInteger) schema = schema.int();
+  if (node.minimum !== undefined) schema = schema.min(node.minimum);
+  if (node.maximum !== undefined) schema = schema.max(node.maximum);
+  if (node.exclusiveMinimum !== undefined) schema = schema.gt(node.exclusiveMinimum);
+  if (node.exclusiveMaximum !== undefined) schema = schema.lt(node.exclusiveMaximum);
+  if (node.multipleOf !== undefined) schema = schema.multipleOf(node.multipleOf);
+
+  return schema;
+};
+
+const convertObject = (node: JsonSchemaObject, convert: Convert): z.ZodTypeAny => {
+  const { properties, additionalProperties } = node;
+
+  // Objects without properties are dictionaries
+  if (!properties && additionalProperties !== undefined && additionalProperties !== false) {
+    return z.record(z.string(), convert(additionalProperties));
+  }
+
+  const required = node.required || [];
+  const shape: z.ZodRawShape = {};
+
+  Object.entries(properties || {}).forEach(([key, property]) => {
+    const schema = convert(property);
+    const hasDefault = typeof property === 'object' && property.default !== undefined;
+
+    shape[key] = required.includes(key) || hasDefault ? schema : schema.optional();
+  });
+
+  const schema = z.object(shape);
+  return additionalProperties === false ? schema.strict() : schema;
+};
+
+const convertArray = (node: JsonSchemaObject, convert: Convert): z.ZodTypeAny => {
+  if (node.prefixItems) {
+    const items = node.prefixItems.map(convert) as [z.ZodTypeAny, ...z.ZodTypeAny[]];
+    return node.items === undefined || node.items === false
+      ? z.tuple(items)
+      : z.tuple(items).rest(convert(node.items));
+  }
+
+  let schema = z.array(node.items === undefined ? z.unknown() : convert(node.items));
+
+  if (node.minItems !== undefined) schema = schema.min(node.minItems);
+  if (node.maxItems !== undefined) schema = schema.max(node.maxItems);
+
+  return schema;
+};
+
+const convertType = (node: JsonSchemaObject, type: JsonSchemaType, convert: Convert) => {
+  switch (type) {
+    case 'string':
+      return convertString(node);
+    case 'number':
+    case 'integer':
+      return convertNumber(node, type === 'integer');
+    case 'boolean':
+      return z.boolean();
+    case 'null':
+      return z.null();
+    case 'object':
+      return convertObject(node, convert);
+    case 'array':
+      return convertArray(node, convert);
+  }
+};
+
+// Types listed on the node, or implied by its keywords
+const getTypes = (node: JsonSchemaObject): JsonSchemaType[] => {
+  if (node.type) return Array.isArray(node.type) ? node.type : [node.type];
+  if (node.properties || node.additionalProperties !== undefined) return ['object'];
+  if (node.items !== undefined || node.prefixItems) return ['array'];
+  return [];
+};
+
+const convertLiterals = (values: any[]): z.ZodTypeAny => {
+  const nonNull = values.filter(value => value !== null);
+  const literals = nonNull.map(value => z.literal(value));
+
+  let schema: z.ZodTypeAny;
+  if (nonNull.length && nonNull.every(value => typeof value === 'string')) {
+    schema = z.enum(nonNull as [string, ...string[]]);
+  } else if (literals.length === 1) {
+    schema = literals[0];
+  } else if (literals.length) {
+    schema = z.union(literals as unknown as [z.ZodTypeAny, z.ZodTypeAny, ...z.ZodTypeAny[]]);
+  } else {
+    return z.null();
+  }
+
+  return nonNull.length < values.length ? schema.nullable() : schema;
+};
+
+// The one value a property is pinned to, by `const` or a single-value `enum`
+const getPinnedValue = (schema: z.ZodTypeAny | undefined): any => {
+  if (!schema || !['literal', 'enum'].includes(getSchemaKind(schema))) return undefined;
+
+  const values = getEnumValues(schema);
+  return values.length === 1 ? values[0] : undefined;
+};
+
+// A property every option pins to a distinct value, for a discriminated union
+const findDiscriminator = (options: z.ZodTypeAny[]): string | undefined => {
+  if (!options.length || !options.every(option => getSchemaKind(option) === 'object')) {
+    return undefined;
+  }
+
+  const shapes = options.map(option => getObjectShape(option));
+  return Object.keys(shapes[0]).find(key => {
+    const values = shapes.map(shape => getPinnedValue(shape[key]));
+    return values.every(value => value !== undefined) && new Set(values).size === values.length;
+  });
+};
+
+const convertUnion = (nodes: JsonSchema[], convert: Convert): z.ZodTypeAny => {
+  const options = nodes.filter(node => !isNullSchema(node)).map(convert);
+  if (!options.length) return z.null();
+
+  const discriminator = findDiscriminator(options);
+
+  let schema: z.ZodTypeAny;
+  if (options.length === 1) {
+    schema = options[0];
+  } else if (discriminator) {
+    schema = z.discriminatedUnion(
+      discriminator,
+      options as [z.AnyZodObject, z.AnyZodObject, ...z.AnyZodObject[]]
+    );
+  } else {
+    schema = z.union(options as [z.ZodTypeAny, z.ZodTypeAny, ...z.ZodTypeAny[]]);
+  }
+
+  return options.length < nodes.length ? schema.nullable() : schema;
+};
+
+// allOf parts (and the node's own keywords) combine into one object when they are all objects
+const convertAllOf = (node: JsonSchemaObject, convert: Convert): z.ZodTypeAny => {
+  const { allOf, ...rest } = node;
+  const parts = allOf!.map(convert);
+  if (getTypes(rest).length) parts.unshift(convertTypes(rest, convert));
+
+  return parts.reduce((combined, part) =>
+    getSchemaKind(combined) === 'object' && getSchemaKind(part) === 'object'
+      ? (combined as z.AnyZodObject).merge(part as z.AnyZodObject)
+      : z.intersection(combined, part)
+  );
+};
+
+const convertTypes = (node: JsonSchemaObject, convert: Convert): z.ZodTypeAny => {
+  const types = getTypes(node);
+  const nonNull = types.filter(type => type !== 'null');
+
+  let schema: z.ZodTypeAny;
+  if (!types.length) {
+    return z.unknown();
+  } else if (!nonNull.length) {
+    return z.null();
+  } else if (nonNull.length === 1) {
+    schema = convertType(node, nonNull[0], convert);
+  } else {
+    schema = z.union(
+      nonNull.map(type => convertType(node, type, convert)) as [
+        z.ZodTypeAny,
+        z.ZodTypeAny,
+        ...z.ZodTypeAny[],
+      ]
+    );
+  }
+
+  return nonNull.length < types.length ? schema.nullable() : schema;
+};
+
+// Label and description as field metadata, and the description on the schema itself
+const applyAnnotations = (schema: z.ZodTypeAny, node: JsonSchemaObject): z.ZodTypeAny => {
+  const config: FieldConfig = {};
+  if (node.title !== undefined) config.label = node.title;
+  if (node.description !== undefined) config.description = node.description;
+
+  const described = node.description !== undefined ? schema.describe(node.description) : schema;
+  return Object.keys(config).length ? withField(described, config) : described;
+};
+
+/**
+ * Convert a JSON Schema into a Zod schema
+ *
+ * Properties that aren't `required` and have no `default` are optional, `type` lists
+ * and `oneOf`/`anyOf` options of `{ type: 'null' }` make a schema nullable, and
+ * `oneOf`/`anyOf` options that share a `const` property become a discriminated union.
+ * Throws for `$ref`s outside the document.
+ *
+ * @example
+ * ```tsx
+ * <ZodForm schema={fromJsonSchema(openApiSpec.components.schemas.User)} onSubmit={save} />
+ * ```
+ */
+export const fromJsonSchema = (root: JsonSchema): z.ZodTypeAny => {
+  const resolved = new Map<string, z.ZodTypeAny>();
+  const resolving = new Set<string>();
+
+  // Recursive references resolve lazily, once the referenced schema is converted
+  const convertRef = (ref: string): z.ZodTypeAny => {
+    if (resolved.has(ref)) return resolved.get(ref)!;
+    if (resolving.has(ref)) return z.lazy(() => resolved.get(ref)!);
+
+    resolving.add(ref);
+    const schema = convert(resolvePointer(root, ref));
+    resolving.delete(ref);
+    resolved.set(ref, schema);
+
+    return schema;
+  };
+
+  const convert: Convert = node => {
+    if (node === true) return z.unknown();
+    if (node === false) return z.never();
+
+    let schema: z.ZodTypeAny;
+    if (node.$ref !== undefined) {
+      schema = convertRef(node.$ref);
+    } else if (node.const !== undefined) {
+      schema = z.literal(node.const);
+    } else if (node.enum) {
+      schema = convertLiterals(node.enum);
+    } else if (node.oneOf || node.anyOf) {
+      schema = convertUnion((node.oneOf || node.anyOf)!, convert);
+    } else if (node.allOf) {
+      schema = convertAllOf(node, convert);
+    } else {
+      schema = convertTypes(node, convert);
+    }
+
+    const annotated = applyAnnotations(schema, node);
+    return node.default !== undefined ? annotated.default(node.default) : annotated;
+  };
+
+  return convert(root);
+};
+
+/**
+ * Parse a JSON Schema into field definitions, like `parseSchema` does for Zod schemas
+ */
+export const parseJsonSchema = (
+  schema: JsonSchema,
+  options: ParseOptions = {}
+): Record<string, FieldAnalysis> => parseSchema(fromJsonSchema(schema), '', options);
@@ -0,0 +1,77 @@
+import { z } from 'zod';
+import { z as z4 } from 'zod/v4';
+import { generateMockData } from './mock-data';
+import { validateWithSchema } from './schema-parser';
+
+describe('generateMockData', () => {
+  const schema = z.object({
+    id: z.string().uuid(),
+    email: z.string().email(),
+    website: z.string().url().optional(),
+    username: z
+      .string()
+      .min(3)
+      .max(16)
+      .regex(/^[a-z][a-z0-9_]*$/),
+    zip: z.string().regex(/^\d{5}(-\d{4})?$/),
+    sku: z.string().regex(/^(?:SKU|ITM)-[A-F0-9]{6}$/),
+    age: z.number().int().min(18).max(99),
+    price: z.number().positive().multipleOf(0.25),
+    role: z.enum(['admin', 'editor', 'viewer']),
+    tags: z.array(z.string().max(12)).min(2).max(5),
+    labels: z.set(z.enum(['red', 'green', 'blue'])).min(1),
+    scores: z.map(z.string(), z.number().min(0).max(10)),
+    birthday: z.date().max(new Date('2010-01-01')),
+  });
+
+  it('should produce data that passes the schema for any seed', () => {
+    for (let seed = 1; seed <= 30; seed++) {
+      const result = validateWithSchema(schema, generateMockData(schema, { seed }));
+      expect(result.errors).toEqual([]);
+    }
+  });
+
+  it('should produce the same data for the same seed', () => {
+    const data = generateMockData(schema, { seed: 11 });
+
+    expect(generateMockData(schema, { seed: 11 })).toEqual(data);
+    expect(generateMockData(schema, { seed: 12 })).not.toEqual(data);
+  });
+
+  it('should return the values the schema expects', () => {
+    const data = generateMockData(schema, { seed: 4 });
+
+    expect(data.labels).toBeInstanceOf(Set);
+    expect(data.scores).toBeInstanceOf(Map);
+    expect(data.birthday).toBeInstanceOf(Date);
+    expect(['admin', 'editor', 'viewer']).toContain(data.role);
+    expect(data.tags.length).toBeGreaterThanOrEqual(2);
+    expect(data.tags.length).toBeLessThanOrEqual(5);
+  });
+
+  it('should retry samples that a refinement rejects', () => {
+    const range = z
+      .object({ start: z.number().int().min(0).max(10), end: z.number().int().min(0).max(10) })
+      .refine(value => value.start < value.end);
+
+    expect(range.safeParse(generateMockData(range, { seed: 2 })).success).toBe(true);
+  });
+
+  it('should throw when no sample passes the schema', () => {
+    const impossible = z.string().refine(() => false, 'Never valid');
+
+    expect(() => generateMockData(impossible)).toThrow('root: Never valid');
+  });
+
+  it('should work with Zod 4 schemas', () => {
+    const v4Schema = z4.object({
+      code: z4.string().regex(/^[A-Z]{3}-\d{3}$/),
+      count: z4.number().int().min(1).max(3),
+      email: z4.email(),
+    });
+
+    for (let seed = 1; seed <= 10; seed++) {
+      expect(v4Schema.safeParse(generateMockData(v4Schema, { seed })).success).toBe(true);
+    }
+  });
+});
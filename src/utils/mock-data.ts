@@ -0,0 +1,44 @@
+import { AnyZodSchema, FormData, MockDataOptions } from '../types';
+import { generateDefaultValue, validateWithSchema } from './schema-parser';
+import { toSchemaValues } from './form-values';
+
+/**
+ * Seeded fixture data for stories and tests
+ *
+ * Mock data is the parser's `sample` mode converted to the values the schema expects
+ * (e.g. `Set`s and `Map`s instead of their form-state arrays and objects), and checked
+ * against the schema before it is returned.
+ */
+
+// Samples tried before giving up, for schemas whose refinements a sample can miss
+const MAX_ATTEMPTS = 10;
+
+// Distance between the seeds of successive attempts
+const ATTEMPT_SEED_STEP = 7919;
+
+/**
+ * Generate data that passes the schema, the same for the same `seed`
+ *
+ * Throws when no sample passes, e.g. because of a refinement the generator can't see.
+ */
+export const generateMockData = <T extends AnyZodSchema>(
+  schema: T,
+  { seed = 1 }: MockDataOptions = {}
+): FormData<T> => {
+  let errors: { field: string; message: string }[] = [];
+
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    const sample = generateDefaultValue(schema, {
+      mode: 'sample',
+      seed: seed + attempt * ATTEMPT_SEED_STEP,
+    });
+    const data = toSchemaValues(schema, sample);
+    const result = validateWithSchema(schema, data);
+
+    if (result.success) return data;
+    errors = result.errors;
+  }
+
+  const details = errors.map(error => `${error.field || 'root'}: ${error.message}`).join('; ');
+  throw new Error(`Could not generate mock data that passes the schema (${details})`);
+};
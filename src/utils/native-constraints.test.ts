@@ -0,0 +1,70 @@
+import { z } from 'zod';
+import { getNativeConstraints, toNativePattern } from './native-constraints';
+import { analyzeField } from './schema-parser';
+
+describe('Native Constraints', () => {
+  const constraintsFor = (schema: z.ZodTypeAny) => {
+    const field = analyzeField('field', schema);
+    return getNativeConstraints(schema, field.type, field.config);
+  };
+
+  it('should mirror string length and pattern rules', () => {
+    expect(
+      constraintsFor(
+        z
+          .string()
+          .min(2)
+          .max(20)
+          .regex(/^[a-z]+$/)
+      )
+    ).toEqual({ required: true, minLength: 2, maxLength: 20, pattern: '^[a-z]+$' });
+    expect(constraintsFor(z.string().length(5))).toEqual({
+      required: true,
+      minLength: 5,
+      maxLength: 5,
+    });
+  });
+
+  it('should only require fields whose schema rejects an empty input', () => {
+    expect(constraintsFor(z.string()).required).toBeUndefined();
+    expect(constraintsFor(z.string().email()).required).toBe(true);
+    expect(constraintsFor(z.string().email().optional()).required).toBeUndefined();
+    expect(constraintsFor(z.number()).required).toBe(true);
+    expect(constraintsFor(z.number().nullable()).required).toBeUndefined();
+    expect(constraintsFor(z.enum(['a', 'b', 'c', 'd', 'e'])).required).toBe(true);
+  });
+
+  it('should set bounds and steps for numbers and dates', () => {
+    expect(constraintsFor(z.number().int().min(0).max(100))).toEqual({
+      required: true,
+      min: 0,
+      max: 100,
+      step: 1,
+    });
+    expect(constraintsFor(z.number().min(0.5))).toMatchObject({ min: 0.5, step: 'any' });
+    expect(constraintsFor(z.number().min(1).multipleOf(5)).step).toBe('any');
+    expect(constraintsFor(z.date().min(new Date('2024-01-01')))).toEqual({
+      required: true,
+      min: '2024-01-01',
+    });
+  });
+
+  it('should leave out constraints for components with their own controls', () => {
+    expect(constraintsFor(z.boolean())).toEqual({});
+    expect(constraintsFor(z.enum(['a', 'b']))).toEqual({});
+  });
+
+  describe('toNativePattern', () => {
+    it('should keep anchored patterns without flags', () => {
+      expect(toNativePattern(/^\d{5}$/)).toBe('^\\d{5}$');
+      expect(toNativePattern(/^\d{5}$/u)).toBe('^\\d{5}$');
+      expect(toNativePattern('^[0-9a-z]+$')).toBe('^[0-9a-z]+$');
+    });
+
+    it('should leave out patterns the attribute would apply more strictly', () => {
+      expect(toNativePattern(/\d{5}/)).toBeUndefined();
+      expect(toNativePattern(/^abc\$/)).toBeUndefined();
+      expect(toNativePattern(/^[a-z]+$/i)).toBeUndefined();
+    });
+  });
+});
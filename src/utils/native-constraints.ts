@@ -0,0 +1,96 @@
+import { AnyZodSchema, FieldConfig, FieldType } from '../types';
+import { validateWithSchema } from './schema-parser';
+import { getValueCodec } from './value-codecs';
+
+/**
+ * Native HTML constraint attributes for a field
+ *
+ * Mirrors a field's validation rules as `required`, `minlength`, `maxlength`,
+ * `pattern`, `min`, `max` and `step`, so the browser, autofill and assistive
+ * technology know the constraints before (or without) the form hydrating. Attributes
+ * are only emitted when they are no stricter than the schema.
+ */
+
+export interface NativeConstraints {
+  required?: boolean;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  min?: number | string;
+  max?: number | string;
+  step?: number | 'any';
+}
+
+const TEXT_TYPES: FieldType[] = ['text', 'email', 'password', 'url', 'tel'];
+const BOUNDED_TYPES: FieldType[] = ['number', 'range', 'date', 'datetime-local', 'time'];
+
+// Flags that don't change whether a whole value matches
+const NEUTRAL_FLAGS = /^[gyduv]*$/;
+
+/**
+ * A regex as a `pattern` attribute, when the browser would accept the same values
+ *
+ * The attribute must match the whole value, so unanchored regexes (which match part of
+ * it) and flags like `i` that the attribute can't express are left out.
+ */
+export const toNativePattern = (pattern: string | RegExp | undefined): string | undefined => {
+  if (typeof pattern === 'string') return pattern;
+  if (!pattern || !NEUTRAL_FLAGS.test(pattern.flags)) return undefined;
+
+  const { source } = pattern;
+  const isAnchored = source.startsWith('^') && source.endsWith('$') && !source.endsWith('\\$');
+  return isAnchored ? source : undefined;
+};
+
+// Whether the schema rejects the value an empty input stands for
+const rejectsEmpty = (zodType: AnyZodSchema, fieldType: FieldType): boolean =>
+  !validateWithSchema(zodType, getValueCodec(zodType, fieldType).parse('')).success;
+
+/**
+ * The constraint attributes for a field rendered with the given type
+ *
+ * Only `Input`, `Textarea` and `Select` fields get attributes; components with their
+ * own controls (checkboxes, radios, star ratings) get none. `required` is set when an
+ * empty input would fail validation, so `z.string()` (which accepts `''`) isn't required.
+ */
+export const getNativeConstraints = (
+  zodType: AnyZodSchema,
+  fieldType: FieldType,
+  config: FieldConfig & Record<string, any>
+): NativeConstraints => {
+  const constraints: NativeConstraints = {};
+  const isText = TEXT_TYPES.includes(fieldType) || fieldType === 'textarea';
+
+  if (
+    isText ||
+    fieldType === 'select' ||
+    (BOUNDED_TYPES.includes(fieldType) && fieldType !== 'range')
+  ) {
+    if (rejectsEmpty(zodType, fieldType)) constraints.required = true;
+  }
+
+  if (isText) {
+    if (config.minLength !== undefined) constraints.minLength = config.minLength;
+    if (config.maxLength !== undefined) constraints.maxLength = config.maxLength;
+  }
+
+  if (TEXT_TYPES.includes(fieldType)) {
+    const pattern = toNativePattern(config.pattern);
+    if (pattern !== undefined) constraints.pattern = pattern;
+  }
+
+  if (BOUNDED_TYPES.includes(fieldType)) {
+    if (config.min !== undefined) constraints.min = config.min;
+    if (config.max !== undefined) constraints.max = config.max;
+    if (config.step !== undefined) constraints.step = config.step;
+  }
+
+  // Number steps count from `min`, and default to 1 when unset
+  if (fieldType === 'number') {
+    const { min, step } = constraints;
+    const isAligned = typeof min !== 'number' || typeof step !== 'number' || min % step === 0;
+    if (step === undefined || !isAligned) constraints.step = 'any';
+  }
+
+  return constraints;
+};
@@ -0,0 +1,511 @@
+import { SchemaCheck } from './zod-introspection';
+
+/**
+ * Seeded sample values for leaf schemas
+ *
+ * Used by `generateDefaultValues` in `sample` mode. Every sampler takes the schema's
+ * normalized checks and a seeded random source, so the same seed always produces the
+ * same values, and the values satisfy the checks.
+ */
+
+// Returns a number in [0, 1), like Math.random
+export type Random = () => number;
+
+/**
+ * A deterministic random source (mulberry32)
+ */
+export const createRandom = (seed = 1): Random => {
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * A random integer in [min, max]
+ */
+export const randomInt = (random: Random, min: number, max: number): number =>
+  min + Math.floor(random() * (max - min + 1));
+
+/**
+ * A random item of a non-empty list
+ */
+export const randomItem = <T>(random: Random, items: T[]): T =>
+  items[randomInt(random, 0, items.length - 1)];
+
+const WORDS = [
+  'alpha',
+  'bright',
+  'cedar',
+  'delta',
+  'ember',
+  'forest',
+  'garden',
+  'harbor',
+  'island',
+  'juniper',
+  'lantern',
+  'meadow',
+  'nova',
+  'orchard',
+  'pebble',
+  'quartz',
+  'river',
+  'summit',
+  'timber',
+  'valley',
+];
+
+const LOWERCASE = 'abcdefghijklmnopqrstuvwxyz';
+const ALPHANUMERIC = `${LOWERCASE}0123456789`;
+const HEX = '0123456789abcdef';
+
+const randomChars = (random: Random, alphabet: string, length: number): string =>
+  Array.from({ length }, () => alphabet[randomInt(random, 0, alphabet.length - 1)]).join('');
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+// Default bounds for unbounded values
+const DEFAULT_NUMBER_RANGE = 100;
+const DEFAULT_DATE_RANGE = [Date.UTC(2020, 0, 1), Date.UTC(2025, 11, 31)];
+
+const findCheck = (checks: SchemaCheck[], kind: string) =>
+  checks.find(check => check.kind === kind);
+
+/**
+ * A sample date within the schema's `min`/`max`
+ */
+export const sampleDate = (checks: SchemaCheck[], random: Random): Date => {
+  const [defaultMin, defaultMax] = DEFAULT_DATE_RANGE;
+  const maxCheck = findCheck(checks, 'max');
+
+  // Open bounds default to the default range, or a range of the same size next to the other bound
+  const min: number =
+    findCheck(checks, 'min')?.value ??
+    (maxCheck ? Math.min(defaultMin, maxCheck.value - (defaultMax - defaultMin)) : defaultMin);
+  const max: number = maxCheck?.value ?? Math.max(defaultMax, min + (defaultMax - defaultMin));
+
+  // Prefer whole minutes when the range allows it
+  const timestamp = randomInt(random, min, max);
+  const rounded = timestamp - (timestamp % 60000);
+  return new Date(rounded >= min ? rounded : timestamp);
+};
+
+/**
+ * A sample number within the schema's bounds, honoring `int` and `multipleOf`
+ */
+export const sampleNumber = (checks: SchemaCheck[], random: Random): number => {
+  const minCheck = findCheck(checks, 'min');
+  const maxCheck = findCheck(checks, 'max');
+  const multipleOf = findCheck(checks, 'multipleOf')?.value;
+  const isInt = !!findCheck(checks, 'int');
+
+  const min: number = minCheck?.value ?? (maxCheck ? maxCheck.value - DEFAULT_NUMBER_RANGE : 0);
+  const max: number = maxCheck?.value ?? min + DEFAULT_NUMBER_RANGE;
+
+  if (isInt || multipleOf !== undefined) {
+    const step = multipleOf ?? 1;
+    let low = Math.ceil(min / step);
+    let high = Math.floor(max / step);
+    if (minCheck && minCheck.inclusive === false && low * step === min) low++;
+    if (maxCheck && maxCheck.inclusive === false && high * step === max) high--;
+
+    return high >= low ? randomInt(random, low, high) * step : min;
+  }
+
+  const value = min + random() * (max - min);
+  const rounded = Math.round(value * 100) / 100;
+  const inRange = (candidate: number) =>
+    (minCheck?.inclusive === false ? candidate > min : candidate >= min) &&
+    (maxCheck?.inclusive === false ? candidate < max : candidate <= max);
+
+  return inRange(rounded) ? rounded : value;
+};
+
+/**
+ * A sample bigint within the schema's bounds
+ */
+export const sampleBigInt = (checks: SchemaCheck[], random: Random): bigint =>
+  BigInt(
+    sampleNumber(
+      [
+        ...checks.map(check =>
+          typeof check.value === 'bigint' ? { ...check, value: Number(check.value) } : check
+        ),
+        { kind: 'int' },
+      ],
+      random
+    )
+  );
+
+// Random words with a length in [minLength, maxLength]
+const sampleText = (random: Random, minLength: number, maxLength: number): string => {
+  let text = '';
+
+  // Add whole words while they fit, stopping at random once the minimum is reached
+  for (;;) {
+    const next = `${text}${text ? ' ' : ''}${randomItem(random, WORDS)}`;
+    if (next.length > maxLength) break;
+    text = next;
+    if (text.length >= minLength && random() < 0.5) break;
+  }
+
+  // Short ranges can't fit a whole word, so the last one is cut to the minimum length
+  while (text.length < minLength) {
+    const remaining = minLength - text.length;
+    const word = randomItem(random, WORDS);
+    text += text && remaining > 1 ? ` ${word.slice(0, remaining - 1)}` : word.slice(0, remaining);
+  }
+
+  return text.charAt(0).toUpperCase() + text.slice(1);
+};
+
+type Generate = (random: Random) => string;
+
+// Inclusive code point ranges
+type CharRange = [number, number];
+
+const DIGIT_RANGES: CharRange[] = [[48, 57]];
+const WORD_RANGES: CharRange[] = [
+  [48, 57],
+  [65, 90],
+  [95, 95],
+  [97, 122],
+];
+const SPACE_RANGES: CharRange[] = [[32, 32]];
+
+// Repeats for unbounded quantifiers (`*`, `+`, `{n,}`) and the most for bounded ones
+const MAX_EXTRA_REPEATS = 3;
+const MAX_BOUNDED_REPEATS = 32;
+
+const inRanges = (code: number, ranges: CharRange[]) =>
+  ranges.some(([from, to]) => code >= from && code <= to);
+
+// Printable ASCII characters outside the ranges
+const invertRanges = (ranges: CharRange[]): CharRange[] => {
+  const inverted: CharRange[] = [];
+  for (let code = 32; code <= 126; code++) {
+    if (!inRanges(code, ranges)) inverted.push([code, code]);
+  }
+  return inverted;
+};
+
+const randomChar = (random: Random, ranges: CharRange[]): string => {
+  const [from, to] = randomItem(random, ranges);
+  return String.fromCodePoint(randomInt(random, from, to));
+};
+
+const repeat =
+  (generate: Generate, min: number, max: number): Generate =>
+  random =>
+    Array.from({ length: randomInt(random, min, max) }, () => generate(random)).join('');
+
+// Compile a regex source into a generator of candidate matches
+// Throws on syntax it can't generate: lookarounds, backreferences and Unicode properties
+const compilePattern = (source: string): Generate => {
+  let index = 0;
+
+  const unsupported = (): never => {
+    throw new Error(`Unsupported pattern syntax at ${index}: ${source}`);
+  };
+
+  const readHex = (length: number): CharRange[] => {
+    const hex = source.slice(index, index + length);
+    if (!new RegExp(`^[0-9a-fA-F]{${length}}$`).test(hex)) unsupported();
+    index += length;
+    const code = parseInt(hex, 16);
+    return [[code, code]];
+  };
+
+  // The characters an escape stands for, with the index just past the backslash
+  const parseEscape = (inClass: boolean): CharRange[] => {
+    const char = source[index++];
+
+    switch (char) {
+      case 'd':
+        return DIGIT_RANGES;
+      case 'D':
+        return invertRanges(DIGIT_RANGES);
+      case 'w':
+        return WORD_RANGES;
+      case 'W':
+        return invertRanges(WORD_RANGES);
+      case 's':
+        return SPACE_RANGES;
+      case 'S':
+        return invertRanges(SPACE_RANGES);
+      case 't':
+        return [[9, 9]];
+      case 'n':
+        return [[10, 10]];
+      case 'r':
+        return [[13, 13]];
+      case 'u':
+        return readHex(4);
+      case 'x':
+        return readHex(2);
+      case 'b':
+        return inClass ? [[8, 8]] : unsupported();
+      default: {
+        // Escaped punctuation is literal; other letters and digits are assertions or references
+        if (char === undefined || /[0-9a-zA-Z]/.test(char)) unsupported();
+        const code = char.codePointAt(0)!;
+        return [[code, code]];
+      }
+    }
+  };
+
+  const parseClassAtom = (): CharRange[] => {
+    const char = source[index++];
+    if (char === '\\') return parseEscape(true);
+    const code = char.codePointAt(0)!;
+    return [[code, code]];
+  };
+
+  // A character class, with the index just past the opening bracket
+  const parseClass = (): CharRange[] => {
+    const negated = source[index] === '^';
+    if (negated) index++;
+
+    const ranges: CharRange[] = [];
+    while (source[index] !== ']') {
+      if (index >= source.length) unsupported();
+
+      const start = parseClassAtom();
+      const isSingle = start.length === 1 && start[0][0] === start[0][1];
+      if (isSingle && source[index] === '-' && source[index + 1] !== ']') {
+        index++;
+        const end = parseClassAtom();
+        if (end.length !== 1 || end[0][0] !== end[0][1]) unsupported();
+        ranges.push([start[0][0], end[0][0]]);
+      } else {
+        ranges.push(...start);
+      }
+    }
+    index++;
+
+    const result = negated ? invertRanges(ranges) : ranges;
+    return result.length ? result : unsupported();
+  };
+
+  const parseAtom = (): Generate => {
+    const char = source[index++];
+
+    switch (char) {
+      case '^':
+      case '$':
+        return () => '';
+      case '.':
+        return random => randomChar(random, WORD_RANGES);
+      case '[': {
+        const ranges = parseClass();
+        return random => randomChar(random, ranges);
+      }
+      case '(': {
+        // Non-capturing and named groups generate like plain groups
+        if (source[index] === '?') {
+          const group = /^\?(:|<[a-zA-Z_$][\w$]*>)/.exec(source.slice(index));
+          if (!group) unsupported();
+          index += group![0].length;
+        }
+        const generate = parseAlternation();
+        if (source[index++] !== ')') unsupported();
+        return generate;
+      }
+      case '\\': {
+        const ranges = parseEscape(false);
+        return random => randomChar(random, ranges);
+      }
+      case '*':
+      case '+':
+      case '?':
+      case '{':
+        return unsupported();
+      default:
+        return () => char;
+    }
+  };
+
+  const parseQuantifier = (): [number, number] | undefined => {
+    const match = /^(?:([*+?])|\{(\d+)(?:(,)(\d*))?\})/.exec(source.slice(index));
+    if (!match) return undefined;
+
+    index += match[0].length;
+    if (source[index] === '?') index++;
+
+    const [, symbol, min, comma, max] = match;
+    if (symbol === '?') return [0, 1];
+    if (symbol) return [symbol === '*' ? 0 : 1, MAX_EXTRA_REPEATS];
+
+    const low = Number(min);
+    if (!comma) return [low, low];
+    return [low, max ? Math.min(Number(max), low + MAX_BOUNDED_REPEATS) : low + MAX_EXTRA_REPEATS];
+  };
+
+  const parseSequence = (): Generate => {
+    const parts: Generate[] = [];
+
+    while (index < source.length && source[index] !== '|' && source[index] !== ')') {
+      const atom = parseAtom();
+      const bounds = parseQuantifier();
+      parts.push(bounds ? repeat(atom, bounds[0], bounds[1]) : atom);
+    }
+
+    return random => parts.map(part => part(random)).join('');
+  };
+
+  const parseAlternation = (): Generate => {
+    const options = [parseSequence()];
+
+    while (source[index] === '|') {
+      index++;
+      options.push(parseSequence());
+    }
+
+    return random => randomItem(random, options)(random);
+  };
+
+  const generate = parseAlternation();
+  if (index < source.length) unsupported();
+  return generate;
+};
+
+const testRegex = (regex: RegExp, value: string) => {
+  regex.lastIndex = 0;
+  return regex.test(value);
+};
+
+// Whether a plain string satisfies the length, affix and pattern checks
+const matchesChecks = (value: string, checks: SchemaCheck[]): boolean =>
+  checks.every(check => {
+    switch (check.kind) {
+      case 'min':
+        return value.length >= check.value;
+      case 'max':
+        return value.length <= check.value;
+      case 'length':
+        return value.length === check.value;
+      case 'startsWith':
+        return value.startsWith(check.value);
+      case 'endsWith':
+        return value.endsWith(check.value);
+      case 'includes':
+        return value.includes(check.value);
+      case 'regex':
+        return testRegex(check.regex!, value);
+      default:
+        return true;
+    }
+  });
+
+// A string matching the first regex check and every other check, when one can be found
+const sampleRegex = (checks: SchemaCheck[], random: Random): string | undefined => {
+  const regex = findCheck(checks, 'regex')!.regex!;
+
+  let generate: Generate;
+  try {
+    generate = compilePattern(regex.source);
+  } catch {
+    return undefined;
+  }
+
+  for (let attempt = 0; attempt < 10; attempt++) {
+    const value = generate(random);
+    if (matchesChecks(value, checks)) return value;
+  }
+
+  return undefined;
+};
+
+const sampleIsoDate = (random: Random) =>
+  new Date(randomInt(random, DEFAULT_DATE_RANGE[0], DEFAULT_DATE_RANGE[1]));
+
+const sampleTime = (random: Random, precision?: number | null): string => {
+  const time = `${pad(randomInt(random, 0, 23))}:${pad(randomInt(random, 0, 59))}:${pad(
+    randomInt(random, 0, 59)
+  )}`;
+  return precision ? `${time}.${randomChars(random, '0123456789', precision)}` : time;
+};
+
+// A value for a string format check, or undefined for plain strings
+const sampleFormat = (check: SchemaCheck, random: Random): string | undefined => {
+  switch (check.kind) {
+    case 'email':
+      return `${randomItem(random, WORDS)}${randomInt(random, 1, 99)}@example.com`;
+    case 'url':
+      return `https://example.com/${randomItem(random, WORDS)}`;
+    case 'uuid':
+      return [8, 4, 4, 4, 12]
+        .map((length, index) =>
+          index === 2
+            ? `4${randomChars(random, HEX, 3)}`
+            : index === 3
+              ? `${randomItem(random, ['8', '9', 'a', 'b'])}${randomChars(random, HEX, 3)}`
+              : randomChars(random, HEX, length)
+        )
+        .join('-');
+    case 'cuid':
+      return `c${randomChars(random, ALPHANUMERIC, 24)}`;
+    case 'cuid2':
+      return `${randomChars(random, LOWERCASE, 1)}${randomChars(random, ALPHANUMERIC, 23)}`;
+    case 'ulid':
+      return randomChars(random, '0123456789ABCDEFGHJKMNPQRSTVWXYZ', 26);
+    case 'nanoid':
+      return randomChars(random, `${ALPHANUMERIC}ABCDEFGHIJKLMNOPQRSTUVWXYZ_-`, 21);
+    case 'emoji':
+      return randomItem(random, ['🎉', '🌲', '🚀', '🌊', '🍀']);
+    case 'ip':
+      return check.version === 'v6'
+        ? `2001:db8::${randomChars(random, HEX, 4)}`
+        : `192.168.${randomInt(random, 0, 255)}.${randomInt(random, 1, 254)}`;
+    case 'date':
+      return sampleIsoDate(random).toISOString().slice(0, 10);
+    case 'time':
+      return sampleTime(random, check.precision);
+    case 'datetime': {
+      const date = sampleIsoDate(random).toISOString().slice(0, 10);
+      const dateTime = `${date}T${sampleTime(random, check.precision)}`;
+      return check.local ? dateTime : `${dateTime}Z`;
+    }
+    default:
+      return undefined;
+  }
+};
+
+/**
+ * A sample string honoring length limits, affixes, regex patterns and common formats
+ *
+ * Patterns are generated from a subset of regex syntax; strings whose pattern uses
+ * lookarounds or backreferences get plain text.
+ */
+export const sampleString = (checks: SchemaCheck[], random: Random): string => {
+  for (const check of checks) {
+    const formatted = sampleFormat(check, random);
+    if (formatted !== undefined) return formatted;
+  }
+
+  if (findCheck(checks, 'regex')) {
+    const matched = sampleRegex(checks, random);
+    if (matched !== undefined) return matched;
+  }
+
+  const prefix = findCheck(checks, 'startsWith')?.value ?? '';
+  const suffix = findCheck(checks, 'endsWith')?.value ?? '';
+  const infix = findCheck(checks, 'includes')?.value ?? '';
+  const exact = findCheck(checks, 'length')?.value;
+  const fixedLength = prefix.length + infix.length + suffix.length;
+
+  const minLength = exact ?? Math.max(findCheck(checks, 'min')?.value ?? 1, fixedLength);
+  const maxLength = exact ?? findCheck(checks, 'max')?.value ?? Math.max(minLength, 24);
+
+  // Fill between the affixes with words
+  const bodyMin = Math.max(minLength - fixedLength, 0);
+  const body = sampleText(random, bodyMin, Math.max(bodyMin, maxLength - fixedLength));
+
+  return `${prefix}${body}${infix}${suffix}`;
+};
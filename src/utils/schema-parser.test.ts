@@ -1,5 +1,14 @@
 import { z } from 'zod';
-import { mapZodTypeToFieldType, parseSchema, generateDefaultValues } from './schema-parser';
+import {
+  mapZodTypeToFieldType,
+  parseSchema,
+  flattenFields,
+  unwrapSchema,
+  matchUnionMember,
+  generateDefaultValue,
+  generateDefaultValues,
+} from './schema-parser';
+import { toSchemaValues } from './form-values';
 
 describe('Schema Parser', () => {
   describe('mapZodTypeToFieldType', () => {
@@ -54,6 +63,74 @@ describe('Schema Parser', () => {
       expect(result.config.min).toBe(1);
       expect(result.config.max).toBe(5);
     });
+
+    it('should map z.instanceof(File) to a file field', () => {
+      expect(mapZodTypeToFieldType(z.instanceof(File)).type).toBe('file');
+      expect(parseSchema(z.object({ avatar: z.instanceof(File).optional() })).avatar.type).toBe(
+        'file'
+      );
+
+      // Other refinements of z.any() are not files
+      expect(mapZodTypeToFieldType(z.any().refine(value => value != null)).type).not.toBe('file');
+      expect(mapZodTypeToFieldType(z.instanceof(Date)).type).not.toBe('file');
+    });
+  });
+
+  describe('dates and string formats', () => {
+    it('should map date bounds to date input attributes with a hint', () => {
+      const result = mapZodTypeToFieldType(
+        z.date().min(new Date('2024-01-01')).max(new Date('2024-12-31'))
+      );
+
+      expect(result.type).toBe('date');
+      expect(result.config).toMatchObject({
+        min: '2024-01-01',
+        max: '2024-12-31',
+        hint: 'Between 2024-01-01 and 2024-12-31',
+      });
+      expect(mapZodTypeToFieldType(z.date().min(new Date('2024-01-01'))).config.hint).toBe(
+        'On or after 2024-01-01'
+      );
+    });
+
+    it('should map ISO date and time strings to the matching inputs', () => {
+      expect(mapZodTypeToFieldType(z.string().datetime())).toEqual({
+        type: 'datetime-local',
+        config: { placeholder: 'YYYY-MM-DDTHH:MM' },
+      });
+      expect(mapZodTypeToFieldType(z.string().date())).toEqual({
+        type: 'date',
+        config: { placeholder: 'YYYY-MM-DD' },
+      });
+      expect(mapZodTypeToFieldType(z.string().time({ precision: 3 }))).toEqual({
+        type: 'time',
+        config: { step: 0.001, placeholder: 'HH:MM:SS.sss' },
+      });
+    });
+
+    it('should describe string format constraints in the placeholder', () => {
+      expect(mapZodTypeToFieldType(z.string().ip({ version: 'v4' })).config.placeholder).toBe(
+        'IPv4 address, e.g. 192.168.0.1'
+      );
+      expect(mapZodTypeToFieldType(z.string().emoji()).config.placeholder).toBe('Emoji only');
+      expect(mapZodTypeToFieldType(z.string().includes('@')).config.placeholder).toBe(
+        'Must include "@"'
+      );
+      expect(mapZodTypeToFieldType(z.string().length(6)).config).toEqual({
+        minLength: 6,
+        maxLength: 6,
+        placeholder: 'Exactly 6 characters',
+      });
+      expect(mapZodTypeToFieldType(z.string().cuid2()).config.pattern).toBe('^[0-9a-z]+$');
+    });
+
+    it('should let metadata placeholders override the format hint', () => {
+      const fields = parseSchema(z.object({ code: z.string().length(6) }), '', {
+        registry: { get: () => ({ placeholder: 'Invite code' }) },
+      });
+
+      expect(fields.code.config.placeholder).toBe('Invite code');
+    });
   });
 
   describe('parseSchema', () => {
@@ -83,6 +160,180 @@ describe('Schema Parser', () => {
       expect(result.name.required).toBe(true);
       expect(result.phone.required).toBe(false);
     });
+
+    it('should parse nested objects into a tree with dotted paths', () => {
+      const schema = z.object({
+        name: z.string(),
+        address: z.object({
+          city: z.string(),
+          geo: z
+            .object({
+              lat: z.number(),
+              lng: z.number(),
+            })
+            .optional(),
+        }),
+      });
+
+      const result = parseSchema(schema);
+
+      expect(result.name.path).toBe('name');
+      expect(result.address.type).toBe('object');
+
+      const address = result.address.config.fields!;
+      expect(address.city.path).toBe('address.city');
+      expect(address.geo.type).toBe('object');
+      expect(address.geo.required).toBe(false);
+      expect(address.geo.config.fields!.lat.path).toBe('address.geo.lat');
+      expect(address.geo.config.fields!.lat.type).toBe('number');
+    });
+  });
+
+  describe('discriminated unions', () => {
+    it('should parse each variant into fields sharing the union path', () => {
+      const schema = z.object({
+        payment: z.discriminatedUnion('method', [
+          z.object({ method: z.literal('card'), cardNumber: z.string() }),
+          z
+            .object({ method: z.literal('bank'), iban: z.string(), bic: z.string() })
+            .describe('Bank transfer'),
+        ]),
+      });
+
+      const { payment } = parseSchema(schema);
+
+      expect(payment.type).toBe('discriminated-union');
+      expect(payment.config.discriminator).toBe('method');
+      expect(payment.config.options).toEqual([
+        { label: 'Card', value: 'card' },
+        { label: 'Bank transfer', value: 'bank' },
+      ]);
+      expect(Object.keys(payment.config.variants!.card)).toEqual(['cardNumber']);
+      expect(payment.config.variants!.bank.iban.path).toBe('payment.iban');
+    });
+  });
+
+  describe('unions', () => {
+    it('should map unions of literals to options', () => {
+      const result = mapZodTypeToFieldType(z.union([z.literal('draft'), z.literal('live')]));
+
+      expect(result.type).toBe('radio');
+      expect(result.config.options).toEqual([
+        { label: 'Draft', value: 'draft' },
+        { label: 'Live', value: 'live' },
+      ]);
+    });
+
+    it('should analyze every member at the union path with described labels', () => {
+      const schema = z.object({
+        price: z.union([
+          z.number().describe('Fixed amount'),
+          z.object({ min: z.number(), max: z.number() }).describe('Range'),
+        ]),
+      });
+
+      const { price } = parseSchema(schema);
+
+      expect(price.type).toBe('union');
+      expect(price.config.options).toEqual([
+        { label: 'Fixed amount', value: 0 },
+        { label: 'Range', value: 1 },
+      ]);
+      expect(price.config.members![0].path).toBe('price');
+      expect(price.config.members![1].config.fields!.min.path).toBe('price.min');
+    });
+
+    it('should match the member that accepts a value, falling back to its kind', () => {
+      const members = [z.string().email(), z.number(), z.object({ id: z.string() })];
+
+      expect(matchUnionMember(members, 42)).toBe(1);
+      expect(matchUnionMember(members, 'not-an-email-yet')).toBe(0);
+      expect(matchUnionMember(members, { id: 'a' })).toBe(2);
+      expect(matchUnionMember(members, {})).toBe(2);
+    });
+  });
+
+  describe('collections', () => {
+    it('should map tuples to fixed positions labeled from their descriptions', () => {
+      const schema = z.object({
+        location: z.tuple([z.number().describe('Latitude'), z.number().describe('Longitude')]),
+      });
+
+      const { location } = parseSchema(schema);
+
+      expect(location.type).toBe('tuple');
+      expect(location.config.fields!['0'].path).toBe('location.0');
+      expect(location.config.fields!['1'].config.label).toBe('Longitude');
+    });
+
+    it('should map sets and maps', () => {
+      const set = mapZodTypeToFieldType(z.set(z.string()).min(1).max(3));
+
+      expect(set.type).toBe('set');
+      expect(set.config).toMatchObject({ minItems: 1, maxItems: 3 });
+      expect(mapZodTypeToFieldType(z.map(z.string(), z.number())).type).toBe('map');
+    });
+  });
+
+  describe('recursive schemas', () => {
+    interface Category {
+      name: string;
+      parent?: Category;
+      children: Category[];
+    }
+
+    const category: z.ZodType<Category> = z.lazy(() =>
+      z.object({
+        name: z.string(),
+        parent: category.optional(),
+        children: z.array(category),
+      })
+    );
+
+    it('should leave lazy objects unparsed until they are expanded', () => {
+      const { parent, children } = parseSchema(unwrapSchema(category));
+
+      expect(parent.type).toBe('object');
+      expect(parent.required).toBe(false);
+      expect(parent.config.lazy).toBe(true);
+      expect(parent.config.fields).toBeUndefined();
+      expect(children.type).toBe('array');
+    });
+
+    it('should map lazy non-object schemas to their resolved type', () => {
+      expect(mapZodTypeToFieldType(z.lazy(() => z.string().email())).type).toBe('email');
+    });
+
+    it('should stop parsing at the maximum depth', () => {
+      const schema = z.object({ a: z.object({ b: z.object({ c: z.string() }) }) });
+
+      const { a } = parseSchema(schema, '', { maxDepth: 2 });
+
+      expect(a.config.fields!.b.path).toBe('a.b');
+      expect(a.config.fields!.b.config.fields).toEqual({});
+    });
+  });
+
+  describe('flattenFields', () => {
+    it('should index every node of the tree by path', () => {
+      const schema = z.object({
+        profile: z.object({
+          email: z.string().email(),
+          settings: z.object({ theme: z.enum(['light', 'dark']) }),
+        }),
+      });
+
+      const flat = flattenFields(parseSchema(schema));
+
+      expect(Object.keys(flat)).toEqual([
+        'profile',
+        'profile.email',
+        'profile.settings',
+        'profile.settings.theme',
+      ]);
+      expect(flat['profile.email'].type).toBe('email');
+      expect(flat['profile.settings.theme'].type).toBe('radio');
+    });
   });
 
   describe('generateDefaultValues', () => {
@@ -118,4 +369,104 @@ describe('Schema Parser', () => {
       });
     });
   });
+
+  describe('generateDefaultValues modes', () => {
+    enum Priority {
+      Low,
+      High,
+    }
+
+    const schema = z.object({
+      name: z.string().min(3).max(12),
+      email: z.string().email(),
+      id: z.string().uuid(),
+      code: z.string().startsWith('AB-').length(8),
+      age: z.number().int().min(18).max(99),
+      ratio: z.number().gt(0).lt(1),
+      count: z.bigint().min(BigInt(10)),
+      role: z.enum(['admin', 'editor', 'viewer']),
+      priority: z.nativeEnum(Priority),
+      birthday: z.date().min(new Date('1950-01-01')).max(new Date('2005-12-31')),
+      startsAt: z.string().datetime(),
+      nickname: z.string().optional(),
+      manager: z.string().nullable(),
+      tags: z.array(z.string()).min(2).max(4),
+      labels: z.set(z.enum(['a', 'b', 'c'])).min(2),
+      scores: z.record(z.string(), z.number()),
+      ports: z.map(z.number(), z.string()),
+      point: z.tuple([z.number(), z.number()]),
+      value: z.union([z.string(), z.number()]),
+      contact: z.discriminatedUnion('channel', [
+        z.object({ channel: z.literal('email'), address: z.string().email() }),
+        z.object({ channel: z.literal('phone'), number: z.string().min(7) }),
+      ]),
+    });
+
+    it('should produce valid-shaped empty values for every type', () => {
+      expect(generateDefaultValues(schema)).toEqual({
+        name: '',
+        email: '',
+        id: '',
+        code: '',
+        age: 18,
+        ratio: 0,
+        count: BigInt(0),
+        role: 'admin',
+        priority: Priority.Low,
+        startsAt: '',
+        manager: null,
+        tags: ['', ''],
+        labels: [],
+        scores: {},
+        ports: {},
+        point: [0, 0],
+        value: '',
+        contact: { channel: 'email', address: '' },
+      });
+    });
+
+    it('should produce samples that satisfy the schema', () => {
+      for (let seed = 1; seed <= 25; seed++) {
+        const values = generateDefaultValues(schema, { mode: 'sample', seed });
+        const result = schema.safeParse(toSchemaValues(schema, values));
+
+        expect(result.success ? [] : result.error.issues).toEqual([]);
+      }
+    });
+
+    it('should produce the same sample for the same seed', () => {
+      const sample = generateDefaultValues(schema, { mode: 'sample', seed: 7 });
+
+      expect(generateDefaultValues(schema, { mode: 'sample', seed: 7 })).toEqual(sample);
+      expect(generateDefaultValues(schema, { mode: 'sample', seed: 8 })).not.toEqual(sample);
+    });
+
+    it('should keep recursive samples finite', () => {
+      interface Category {
+        name: string;
+        children: Category[];
+      }
+      const category: z.ZodType<Category> = z.lazy(() =>
+        z.object({ name: z.string(), children: z.array(category) })
+      );
+
+      const sample = generateDefaultValue(category, { mode: 'sample', seed: 3 });
+
+      expect(category.safeParse(sample).success).toBe(true);
+      expect(generateDefaultValue(category)).toBeUndefined();
+    });
+  });
+
+  describe('generateDefaultValue', () => {
+    it('should seed a single value from any supported schema', () => {
+      expect(generateDefaultValue(z.string())).toBe('');
+      expect(generateDefaultValue(z.array(z.number()))).toEqual([]);
+      expect(generateDefaultValue(z.set(z.string()))).toEqual([]);
+      expect(generateDefaultValue(z.tuple([z.number(), z.string()]))).toEqual([0, '']);
+      expect(generateDefaultValue(z.object({ title: z.string(), done: z.boolean() }))).toEqual({
+        title: '',
+        done: false,
+      });
+    });
+  });
 });
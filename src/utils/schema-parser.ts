@@ -1,65 +1,228 @@
 import { z } from 'zod';
-import { FieldType, FieldConfig, FieldAnalysis, SchemaAnalysis, ZodTypeInfo } from '../types';
+import {
+  FieldConfig,
+  FieldAnalysis,
+  FieldType,
+  SchemaAnalysis,
+  ZodTypeInfo,
+  ParseOptions,
+  AnyZodSchema,
+  FieldMapping,
+  DefaultValueOptions,
+} from '../types';
+import { getFieldMetadata } from './field-metadata';
+import { applyFieldMappers } from './field-mappers';
+import {
+  getSchemaKind,
+  getTypeName,
+  getInnerSchema,
+  isWrapperSchema,
+  getDefaultValue,
+  getObjectShape,
+  getTupleItems,
+  getUnionOptions,
+  getDiscriminator,
+  getDiscriminatedVariants,
+  getEnumValues,
+  getChecks,
+  getDescription,
+  getIssues,
+  getArrayElement,
+  getKeyType,
+  getValueType,
+} from './zod-introspection';
+import {
+  createRandom,
+  Random,
+  randomInt,
+  randomItem,
+  sampleBigInt,
+  sampleDate,
+  sampleNumber,
+  sampleString,
+} from './sample-values';
 
 /**
  * Enhanced schema parser for converting Zod schemas to React form fields
+ *
+ * Schemas are read through the introspection helpers, so Zod 3 and Zod 4 schemas
+ * produce the same field analysis.
  */
 
+/**
+ * Default maximum nesting depth, in path segments, for recursive schemas
+ */
+export const DEFAULT_MAX_DEPTH = 10;
+
+/**
+ * Number of segments in a dotted field path
+ */
+export const getPathDepth = (path: string): number => (path ? path.split('.').length : 0);
+
+const FIELD_TYPES: FieldType[] = [
+  'text',
+  'email',
+  'password',
+  'url',
+  'tel',
+  'number',
+  'range',
+  'textarea',
+  'select',
+  'radio',
+  'checkbox',
+  'file',
+  'date',
+  'datetime-local',
+  'time',
+  'stars',
+  'array',
+  'object',
+  'record',
+  'tuple',
+  'set',
+  'map',
+  'discriminated-union',
+  'union',
+  'switch',
+  'color',
+];
+
+/**
+ * Whether a configured type is built in, rather than the name of a custom component
+ */
+export const isFieldType = (type: string | undefined): type is FieldType =>
+  FIELD_TYPES.includes(type as FieldType);
+
+/**
+ * Strip wrappers (optional, nullable, default, effects, lazy) that don't change the
+ * shape of the underlying schema
+ */
+export const unwrapSchema = (zodType: AnyZodSchema): z.ZodTypeAny =>
+  isWrapperSchema(zodType) ? unwrapSchema(getInnerSchema(zodType)!) : (zodType as z.ZodTypeAny);
+
 /**
  * Map Zod types to form field types with enhanced logic
+ *
+ * Registered field mappers are consulted before the built-in rules, once wrappers
+ * have been stripped.
  */
 export const mapZodTypeToFieldType = (
-  zodType: z.ZodTypeAny,
-  path = ''
-): { type: FieldType; config: Partial<FieldConfig> } => {
+  zodType: AnyZodSchema,
+  path = '',
+  parseOptions: ParseOptions = {}
+): FieldMapping => {
+  const kind = getSchemaKind(zodType);
+
   // Handle ZodDefault wrapper
-  if (zodType instanceof z.ZodDefault) {
-    const result = mapZodTypeToFieldType(zodType._def.innerType, path);
-    result.config.defaultValue = zodType._def.defaultValue();
+  if (kind === 'default') {
+    const result = mapZodTypeToFieldType(getInnerSchema(zodType)!, path, parseOptions);
+    result.config.defaultValue = getDefaultValue(zodType);
     return result;
   }
 
   // Handle ZodOptional and ZodNullable wrappers
-  if (zodType instanceof z.ZodOptional || zodType instanceof z.ZodNullable) {
-    const result = mapZodTypeToFieldType(zodType.unwrap(), path);
+  if (kind === 'optional' || kind === 'nullable') {
+    const result = mapZodTypeToFieldType(getInnerSchema(zodType)!, path, parseOptions);
     result.config.required = false;
     return result;
   }
 
   // Handle ZodEffects (refinements and transforms)
-  if (zodType instanceof z.ZodEffects) {
-    return mapZodTypeToFieldType(zodType._def.schema, path);
+  if (kind === 'effects') {
+    return mapZodTypeToFieldType(getInnerSchema(zodType)!, path, parseOptions);
+  }
+
+  // Lazy (recursive) schemas: objects are left unparsed so they only expand on demand
+  if (kind === 'lazy') {
+    const inner = getInnerSchema(zodType)!;
+
+    if (getSchemaKind(unwrapSchema(inner)) === 'object') {
+      return { type: 'object', config: { lazy: true } };
+    }
+
+    return mapZodTypeToFieldType(inner, path, parseOptions);
   }
 
+  return applyFieldMappers(zodType, path, parseOptions.fieldMappers, () =>
+    mapBuiltInFieldType(zodType, path, parseOptions)
+  );
+};
+
+// Built-in mapping rules for schemas without wrappers
+const mapBuiltInFieldType = (
+  zodType: AnyZodSchema,
+  path: string,
+  parseOptions: ParseOptions
+): FieldMapping => {
+  const kind = getSchemaKind(zodType);
+
   // String types with enhanced detection
-  if (zodType instanceof z.ZodString) {
+  if (kind === 'string') {
     const config: Partial<FieldConfig> = {};
 
-    if (zodType._def.checks) {
-      for (const check of zodType._def.checks) {
-        switch (check.kind) {
-          case 'email':
-            return { type: 'email', config };
-          case 'url':
-            return { type: 'url', config };
-          case 'uuid':
-            config.pattern =
-              '^[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}$';
-            break;
-          case 'min':
-            config.minLength = check.value;
-            // Use textarea for long text (>= 100 chars)
-            if (check.value >= 100) {
-              return { type: 'textarea', config };
-            }
-            break;
-          case 'max':
-            config.maxLength = check.value;
-            break;
-          case 'regex':
-            config.pattern = check.regex.source;
-            break;
-        }
+    for (const check of getChecks(zodType)) {
+      switch (check.kind) {
+        case 'email':
+          return { type: 'email', config };
+        case 'url':
+          return { type: 'url', config };
+        case 'uuid':
+          config.pattern =
+            '^[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}$';
+          break;
+        case 'min':
+          config.minLength = check.value;
+          // Use textarea for long text (>= 100 chars)
+          if (check.value >= 100) {
+            return { type: 'textarea', config };
+          }
+          break;
+        case 'max':
+          config.maxLength = check.value;
+          break;
+        case 'regex':
+          config.pattern = check.regex!.source;
+          break;
+        case 'length':
+          config.minLength = check.value;
+          config.maxLength = check.value;
+          config.placeholder = `Exactly ${check.value} characters`;
+          break;
+        case 'includes':
+          config.placeholder = `Must include "${check.value}"`;
+          break;
+        case 'ip':
+          config.placeholder = IP_PLACEHOLDERS[check.version || 'any'];
+          break;
+        case 'emoji':
+          config.placeholder = 'Emoji only';
+          break;
+        case 'cuid2':
+          config.pattern = '^[0-9a-z]+$';
+          config.placeholder = 'Lowercase letters and digits';
+          break;
+        // ISO date and time strings use the matching native pickers
+        case 'datetime':
+          return {
+            type: 'datetime-local',
+            config: {
+              ...config,
+              ...getTimeStep(check.precision),
+              placeholder: `YYYY-MM-DDT${getTimeFormat(check.precision)}`,
+            },
+          };
+        case 'date':
+          return { type: 'date', config: { ...config, placeholder: 'YYYY-MM-DD' } };
+        case 'time':
+          return {
+            type: 'time',
+            config: {
+              ...config,
+              ...getTimeStep(check.precision),
+              placeholder: getTimeFormat(check.precision),
+            },
+          };
       }
     }
 
@@ -67,29 +230,27 @@ export const mapZodTypeToFieldType = (
   }
 
   // Number types with range detection
-  if (zodType instanceof z.ZodNumber) {
+  if (kind === 'number') {
     const config: Partial<FieldConfig> = {};
     let minValue: number | undefined;
     let maxValue: number | undefined;
 
-    if (zodType._def.checks) {
-      for (const check of zodType._def.checks) {
-        switch (check.kind) {
-          case 'min':
-            config.min = check.value;
-            minValue = check.value;
-            break;
-          case 'max':
-            config.max = check.value;
-            maxValue = check.value;
-            break;
-          case 'int':
-            config.step = 1;
-            break;
-          case 'multipleOf':
-            config.step = check.value;
-            break;
-        }
+    for (const check of getChecks(zodType)) {
+      switch (check.kind) {
+        case 'min':
+          config.min = check.value;
+          minValue = check.value;
+          break;
+        case 'max':
+          config.max = check.value;
+          maxValue = check.value;
+          break;
+        case 'int':
+          config.step = 1;
+          break;
+        case 'multipleOf':
+          config.step = check.value;
+          break;
       }
     }
 
@@ -102,18 +263,33 @@ export const mapZodTypeToFieldType = (
   }
 
   // Boolean types
-  if (zodType instanceof z.ZodBoolean) {
+  if (kind === 'boolean') {
     return { type: 'checkbox', config: {} };
   }
 
-  // Date types
-  if (zodType instanceof z.ZodDate) {
-    return { type: 'date', config: {} };
+  // Date types, with min/max as date input attributes
+  if (kind === 'date') {
+    const config: Partial<FieldConfig> = {};
+
+    for (const check of getChecks(zodType)) {
+      if (check.kind === 'min') config.min = toDateInputValue(check.value);
+      if (check.kind === 'max') config.max = toDateInputValue(check.value);
+    }
+
+    if (config.min && config.max) {
+      config.hint = `Between ${config.min} and ${config.max}`;
+    } else if (config.min) {
+      config.hint = `On or after ${config.min}`;
+    } else if (config.max) {
+      config.hint = `On or before ${config.max}`;
+    }
+
+    return { type: 'date', config };
   }
 
   // Enum types
-  if (zodType instanceof z.ZodEnum) {
-    const options = zodType._def.values.map((value: any) => ({
+  if (kind === 'enum') {
+    const options = getEnumValues(zodType).map((value: any) => ({
       label: String(value).charAt(0).toUpperCase() + String(value).slice(1),
       value: value,
     }));
@@ -127,9 +303,8 @@ export const mapZodTypeToFieldType = (
   }
 
   // Native enum types
-  if (zodType instanceof z.ZodNativeEnum) {
-    const enumValues = Object.values(zodType._def.values);
-    const options = enumValues.map((value: any) => ({
+  if (kind === 'nativeEnum') {
+    const options = getEnumValues(zodType).map((value: any) => ({
       label: String(value).charAt(0).toUpperCase() + String(value).slice(1),
       value: value,
     }));
@@ -138,56 +313,113 @@ export const mapZodTypeToFieldType = (
   }
 
   // Array types
-  if (zodType instanceof z.ZodArray) {
-    const config: Partial<FieldConfig> = {};
-
-    if (zodType._def.minLength) {
-      config.minItems = zodType._def.minLength.value;
-    }
-    if (zodType._def.maxLength) {
-      config.maxItems = zodType._def.maxLength.value;
-    }
-
-    return { type: 'array', config };
+  if (kind === 'array') {
+    return { type: 'array', config: getItemLimits(zodType) };
   }
 
-  // Object types
-  if (zodType instanceof z.ZodObject) {
-    return { type: 'object', config: {} };
+  // Object types (nested fields are parsed recursively with dotted paths)
+  if (kind === 'object') {
+    return { type: 'object', config: { fields: parseSchema(zodType, path, parseOptions) } };
   }
 
   // Record types (key-value pairs)
-  if (zodType instanceof z.ZodRecord) {
+  if (kind === 'record') {
     return { type: 'record', config: {} };
   }
 
+  // Tuple types: fixed positions rendered inline, e.g. a [lat, lng] pair
+  if (kind === 'tuple') {
+    const fields: Record<string, FieldAnalysis> = {};
+
+    getTupleItems(zodType).items.forEach((item, index) => {
+      const field = analyzeField(String(index), item, path, parseOptions);
+      field.config.label = field.config.label || getDescription(item) || `Item ${index + 1}`;
+      fields[String(index)] = field;
+    });
+
+    return { type: 'tuple', config: { fields } };
+  }
+
+  // Set types (edited as a list of unique values)
+  if (kind === 'set') {
+    return { type: 'set', config: getItemLimits(zodType) };
+  }
+
+  // Map types (edited like records)
+  if (kind === 'map') {
+    return { type: 'map', config: {} };
+  }
+
   // Union types
-  if (zodType instanceof z.ZodUnion) {
-    const options = zodType._def.options.map((option: any, index: number) => ({
-      label: `Option ${index + 1}`,
+  if (kind === 'union') {
+    const unionOptions = getUnionOptions(zodType);
+
+    // Unions of literals behave like enums
+    if (unionOptions.every(option => getSchemaKind(option) === 'literal')) {
+      const options = unionOptions.map(option => {
+        const [value] = getEnumValues(option);
+
+        return {
+          label:
+            getDescription(option) ||
+            String(value).charAt(0).toUpperCase() + String(value).slice(1),
+          value,
+        };
+      });
+
+      return { type: options.length <= 4 ? 'radio' : 'select', config: { options } };
+    }
+
+    // Every member is analyzed at the union's own path so its editor binds to the same value
+    const separator = path.lastIndexOf('.');
+    const memberName = path.slice(separator + 1);
+    const memberBasePath = separator === -1 ? '' : path.slice(0, separator);
+    const members = unionOptions.map(option =>
+      analyzeField(memberName, option, memberBasePath, parseOptions)
+    );
+
+    const options = members.map((member, index) => ({
+      label:
+        member.config.label ||
+        getDescription(unionOptions[index]) ||
+        member.zodType.replace(/^Zod/, ''),
       value: index,
     }));
 
-    return { type: 'radio', config: { options } };
+    return { type: 'union', config: { options, members } };
   }
 
-  // Discriminated union types
-  if (zodType instanceof z.ZodDiscriminatedUnion) {
-    const options = Array.from(zodType._def.optionsMap.keys()).map((key: any) => ({
-      label: String(key).charAt(0).toUpperCase() + String(key).slice(1),
-      value: key,
-    }));
+  // Discriminated union types: a discriminator select plus per-variant fields
+  if (kind === 'discriminatedUnion') {
+    const discriminator = getDiscriminator(zodType);
+    const options: Array<{ label: string; value: string | number }> = [];
+    const variants: Record<string, Record<string, FieldAnalysis>> = {};
+
+    getDiscriminatedVariants(zodType).forEach(([key, variant]) => {
+      options.push({
+        label:
+          getFieldMetadata(variant, parseOptions.registry).label ||
+          getDescription(variant) ||
+          String(key).charAt(0).toUpperCase() + String(key).slice(1),
+        value: key,
+      });
+
+      // Variant fields share the union's path; the discriminator is rendered separately
+      const variantFields = parseSchema(variant, path, parseOptions);
+      delete variantFields[discriminator];
+      variants[String(key)] = variantFields;
+    });
 
-    return { type: 'select', config: { options } };
+    return { type: 'discriminated-union', config: { discriminator, options, variants } };
   }
 
-  // File types (using ZodType with instanceof check)
-  if ((zodType as any)._def?.typeName === 'ZodType' && (zodType as any)._def?.cls === File) {
+  // File types (z.instanceof(File) on Zod 3, z.file() on Zod 4)
+  if (kind === 'file') {
     return { type: 'file', config: {} };
   }
 
   // BigInt types
-  if (zodType instanceof z.ZodBigInt) {
+  if (kind === 'bigint') {
     return { type: 'number', config: {} };
   }
 
@@ -195,104 +427,184 @@ export const mapZodTypeToFieldType = (
   return { type: 'text', config: {} };
 };
 
+const IP_PLACEHOLDERS: Record<string, string> = {
+  v4: 'IPv4 address, e.g. 192.168.0.1',
+  v6: 'IPv6 address, e.g. 2001:db8::1',
+  any: 'IPv4 or IPv6 address',
+};
+
+// Format of a time with the given number of fractional second digits (none when unset)
+const getTimeFormat = (precision?: number | null): string => {
+  if (precision === undefined || precision === null) return 'HH:MM';
+  return precision === 0 ? 'HH:MM:SS' : `HH:MM:SS.${'s'.repeat(precision)}`;
+};
+
+// Input step, in seconds, that lets time inputs produce the given precision
+const getTimeStep = (precision?: number | null): Partial<FieldConfig> =>
+  precision === undefined || precision === null ? {} : { step: Math.pow(10, -precision) };
+
+// A date check value (a timestamp) as a date input value
+const toDateInputValue = (timestamp: number): string =>
+  new Date(timestamp).toISOString().slice(0, 10);
+
+// Item count limits of an array or set schema
+const getItemLimits = (zodType: AnyZodSchema): Partial<FieldConfig> => {
+  const config: Partial<FieldConfig> = {};
+
+  for (const check of getChecks(zodType)) {
+    if (check.kind === 'min' || check.kind === 'length') config.minItems = check.value;
+    if (check.kind === 'max' || check.kind === 'length') config.maxItems = check.value;
+  }
+
+  return config;
+};
+
+/**
+ * Find the union member that best matches a value: the first member that parses it,
+ * otherwise the first member of the same basic kind (so partially filled values stay put)
+ */
+export const matchUnionMember = (members: z.ZodTypeAny[], value: any): number => {
+  const parsed = members.findIndex(member => member.safeParse(value).success);
+  if (parsed !== -1) return parsed;
+
+  const sameKind = members.findIndex(member => {
+    const kind = getSchemaKind(unwrapSchema(member));
+
+    if (Array.isArray(value)) return kind === 'array';
+    if (value instanceof Date) return kind === 'date';
+
+    switch (typeof value) {
+      case 'string':
+        return kind === 'string' || kind === 'enum' || kind === 'nativeEnum';
+      case 'number':
+        return kind === 'number';
+      case 'boolean':
+        return kind === 'boolean';
+      case 'object':
+        return value !== null && (kind === 'object' || kind === 'record');
+      default:
+        return false;
+    }
+  });
+
+  return Math.max(sameKind, 0);
+};
+
 /**
  * Extract comprehensive validation rules from Zod schema
  */
-export const extractValidationRules = (zodType: z.ZodTypeAny): Record<string, any> => {
+export const extractValidationRules = (zodType: AnyZodSchema): Record<string, any> => {
   const rules: Record<string, any> = {};
+  const kind = getSchemaKind(zodType);
 
   // Handle wrapper types
-  if (zodType instanceof z.ZodDefault) {
-    return extractValidationRules(zodType._def.innerType);
+  if (kind === 'default' || kind === 'effects') {
+    return extractValidationRules(getInnerSchema(zodType)!);
   }
 
-  if (zodType instanceof z.ZodOptional || zodType instanceof z.ZodNullable) {
-    const innerRules = extractValidationRules(zodType.unwrap());
+  if (kind === 'optional' || kind === 'nullable') {
+    const innerRules = extractValidationRules(getInnerSchema(zodType)!);
     return { ...innerRules, required: false };
   }
 
-  if (zodType instanceof z.ZodEffects) {
-    return extractValidationRules(zodType._def.schema);
-  }
-
   // String validation rules
-  if (zodType instanceof z.ZodString) {
-    if (zodType._def.checks) {
-      for (const check of zodType._def.checks) {
-        switch (check.kind) {
-          case 'min':
-            rules.minLength = check.value;
-            break;
-          case 'max':
-            rules.maxLength = check.value;
-            break;
-          case 'email':
-            rules.email = true;
-            break;
-          case 'url':
-            rules.url = true;
-            break;
-          case 'regex':
-            rules.pattern = check.regex;
-            break;
-          case 'uuid':
-            rules.uuid = true;
-            break;
-          case 'cuid':
-            rules.cuid = true;
-            break;
-          case 'startsWith':
-            rules.startsWith = check.value;
-            break;
-          case 'endsWith':
-            rules.endsWith = check.value;
-            break;
-        }
+  if (kind === 'string') {
+    for (const check of getChecks(zodType)) {
+      switch (check.kind) {
+        case 'min':
+          rules.minLength = check.value;
+          break;
+        case 'max':
+          rules.maxLength = check.value;
+          break;
+        case 'email':
+          rules.email = true;
+          break;
+        case 'url':
+          rules.url = true;
+          break;
+        case 'regex':
+          rules.pattern = check.regex;
+          break;
+        case 'uuid':
+          rules.uuid = true;
+          break;
+        case 'cuid':
+          rules.cuid = true;
+          break;
+        case 'startsWith':
+          rules.startsWith = check.value;
+          break;
+        case 'endsWith':
+          rules.endsWith = check.value;
+          break;
+        case 'includes':
+          rules.includes = check.value;
+          break;
+        case 'length':
+          rules.length = check.value;
+          break;
+        case 'datetime':
+        case 'date':
+        case 'time':
+        case 'emoji':
+        case 'cuid2':
+          rules[check.kind] = true;
+          break;
+        case 'ip':
+          rules.ip = check.version || true;
+          break;
       }
     }
   }
 
+  // Date validation rules
+  if (kind === 'date') {
+    for (const check of getChecks(zodType)) {
+      if (check.kind === 'min') rules.minDate = new Date(check.value);
+      if (check.kind === 'max') rules.maxDate = new Date(check.value);
+    }
+  }
+
   // Number validation rules
-  if (zodType instanceof z.ZodNumber) {
-    if (zodType._def.checks) {
-      for (const check of zodType._def.checks) {
-        switch (check.kind) {
-          case 'min':
-            rules.min = check.value;
-            rules.minInclusive = check.inclusive;
-            break;
-          case 'max':
-            rules.max = check.value;
-            rules.maxInclusive = check.inclusive;
-            break;
-          case 'int':
-            rules.integer = true;
-            break;
-          case 'multipleOf':
-            rules.multipleOf = check.value;
-            break;
-          case 'finite':
-            rules.finite = true;
-            break;
-        }
+  if (kind === 'number') {
+    for (const check of getChecks(zodType)) {
+      switch (check.kind) {
+        case 'min':
+          rules.min = check.value;
+          rules.minInclusive = check.inclusive;
+          break;
+        case 'max':
+          rules.max = check.value;
+          rules.maxInclusive = check.inclusive;
+          break;
+        case 'int':
+          rules.integer = true;
+          break;
+        case 'multipleOf':
+          rules.multipleOf = check.value;
+          break;
+        case 'finite':
+          rules.finite = true;
+          break;
       }
     }
   }
 
   // Array validation rules
-  if (zodType instanceof z.ZodArray) {
-    if (zodType._def.minLength) {
-      rules.minItems = zodType._def.minLength.value;
+  if (kind === 'array') {
+    const { minItems, maxItems } = getItemLimits(zodType);
+
+    if (minItems !== undefined) {
+      rules.minItems = minItems;
     }
-    if (zodType._def.maxLength) {
-      rules.maxItems = zodType._def.maxLength.value;
+    if (maxItems !== undefined) {
+      rules.maxItems = maxItems;
     }
   }
 
-  // Set required flag (default is true unless optional/nullable)
-  if (!(zodType instanceof z.ZodOptional || zodType instanceof z.ZodNullable)) {
-    rules.required = true;
-  }
+  // Set required flag (optional/nullable wrappers returned above)
+  rules.required = true;
 
   return rules;
 };
@@ -300,28 +612,30 @@ export const extractValidationRules = (zodType: z.ZodTypeAny): Record<string, an
 /**
  * Get comprehensive type information from Zod schema
  */
-export const getZodTypeInfo = (zodType: z.ZodTypeAny): ZodTypeInfo => {
+export const getZodTypeInfo = (zodType: AnyZodSchema): ZodTypeInfo => {
+  const kind = getSchemaKind(zodType);
   const info: ZodTypeInfo = {
-    typeName: zodType._def.typeName,
-    isOptional: zodType instanceof z.ZodOptional,
-    isNullable: zodType instanceof z.ZodNullable,
-    hasDefault: zodType instanceof z.ZodDefault,
+    typeName: getTypeName(zodType),
+    isOptional: kind === 'optional',
+    isNullable: kind === 'nullable',
+    hasDefault: kind === 'default',
     constraints: {},
   };
 
-  if (zodType instanceof z.ZodDefault) {
-    info.defaultValue = zodType._def.defaultValue();
+  if (kind === 'default') {
+    info.defaultValue = getDefaultValue(zodType);
   }
 
-  if (zodType instanceof z.ZodEnum) {
-    info.options = zodType._def.values.map((value: any) => ({
+  if (kind === 'enum') {
+    info.options = getEnumValues(zodType).map((value: any) => ({
       label: String(value),
       value: value,
     }));
   }
 
-  if (zodType._def.description) {
-    info.description = zodType._def.description;
+  const description = getDescription(zodType);
+  if (description) {
+    info.description = description;
   }
 
   return info;
@@ -329,49 +643,103 @@ export const getZodTypeInfo = (zodType: z.ZodTypeAny): ZodTypeInfo => {
 
 /**
  * Analyze a field within a schema
+ *
+ * Metadata attached with `withField` is applied on top of the inferred config.
  */
-export const analyzeField = (name: string, zodType: z.ZodTypeAny, path = ''): FieldAnalysis => {
+export const analyzeField = (
+  name: string,
+  zodType: AnyZodSchema,
+  path = '',
+  options: ParseOptions = {}
+): FieldAnalysis => {
   const fieldPath = path ? `${path}.${name}` : name;
-  const { type, config } = mapZodTypeToFieldType(zodType, fieldPath);
+  const { type, config } = mapZodTypeToFieldType(zodType, fieldPath, options);
   const validation = extractValidationRules(zodType);
   const typeInfo = getZodTypeInfo(zodType);
+  const metadata = getFieldMetadata(zodType, options.registry);
 
   return {
     name,
-    type,
-    zodType: zodType._def.typeName,
+    path: fieldPath,
+    // Custom type names stay in the config, where `customComponents` looks them up
+    type: isFieldType(metadata.type) ? metadata.type : type,
+    zodType: getTypeName(zodType),
     required: validation.required !== false,
     config: {
       ...config,
       ...validation,
+      ...metadata,
     },
     defaultValue: typeInfo.defaultValue,
+    schema: zodType as z.ZodTypeAny,
   };
 };
 
 /**
  * Parse a complete Zod schema into field definitions
+ *
+ * Nested objects are parsed recursively: each object field carries its children
+ * in `config.fields`, and every node's `path` is the dotted path from the root.
+ * Lazy objects are not descended into, and nothing below `maxDepth` is parsed.
  */
-export const parseSchema = (schema: z.ZodTypeAny, basePath = ''): Record<string, FieldAnalysis> => {
+export const parseSchema = (
+  schema: AnyZodSchema,
+  basePath = '',
+  options: ParseOptions = {}
+): Record<string, FieldAnalysis> => {
   const fields: Record<string, FieldAnalysis> = {};
 
+  if (getPathDepth(basePath) >= (options.maxDepth ?? DEFAULT_MAX_DEPTH)) {
+    return fields;
+  }
+
   // Handle object schemas
-  if (schema instanceof z.ZodObject) {
-    const shape = schema._def.shape();
+  if (getSchemaKind(schema) === 'object') {
+    const shape = getObjectShape(schema);
 
     Object.keys(shape).forEach(key => {
       const zodType = shape[key];
-      fields[key] = analyzeField(key, zodType, basePath);
+      fields[key] = analyzeField(key, zodType, basePath, options);
     });
   }
 
   return fields;
 };
 
+/**
+ * Flatten a parsed field tree into a map keyed by dotted path
+ */
+export const flattenFields = (
+  fields: Record<string, FieldAnalysis>
+): Record<string, FieldAnalysis> => {
+  const flat: Record<string, FieldAnalysis> = {};
+
+  Object.values(fields).forEach(field => {
+    flat[field.path] = field;
+
+    if (field.config.fields) {
+      Object.assign(flat, flattenFields(field.config.fields));
+    }
+
+    Object.values(field.config.variants || {}).forEach(variantFields => {
+      Object.assign(flat, flattenFields(variantFields));
+    });
+
+    // Primitive union members share the union's path, so only object members add entries
+    (field.config.members || []).forEach(member => {
+      if (member.config.fields) {
+        Object.assign(flat, flattenFields(member.config.fields));
+      }
+    });
+  });
+
+  return flat;
+};
+
 /**
  * Analyze a complete schema for complexity and features
  */
-export const analyzeSchema = (schema: z.ZodTypeAny): SchemaAnalysis => {
+export const analyzeSchema = (schema: AnyZodSchema): SchemaAnalysis => {
   const fields = Object.values(parseSchema(schema));
 
   const hasArrays = fields.some(field => field.type === 'array');
@@ -406,49 +774,183 @@ export const analyzeSchema = (schema: z.ZodTypeAny): SchemaAnalysis => {
   };
 };
 
-/**
- * Generate default values from schema
- */
-export const generateDefaultValues = (schema: z.ZodTypeAny): Record<string, any> => {
-  const defaults: Record<string, any> = {};
+// Generation state shared by one generateDefaultValue(s) call
+interface GenerationContext {
+  mode: 'empty' | 'sample';
+  random: Random;
+  // Number of lazy schemas entered, to keep recursive samples finite
+  lazyDepth: number;
+}
 
-  if (schema instanceof z.ZodObject) {
-    const shape = schema._def.shape();
+// Past this many lazy schemas, samples leave optional fields out and use minimum item counts
+const MAX_SAMPLE_LAZY_DEPTH = 3;
 
-    Object.keys(shape).forEach(key => {
-      const zodType = shape[key];
+// Number of items for an array or set: the minimum when empty, a bounded random count as a sample
+const getItemCount = (zodType: AnyZodSchema, context: GenerationContext): number => {
+  const { minItems = 0, maxItems } = getItemLimits(zodType);
 
-      if (zodType instanceof z.ZodDefault) {
-        defaults[key] = zodType._def.defaultValue();
-      } else if (zodType instanceof z.ZodArray) {
-        defaults[key] = [];
-      } else if (zodType instanceof z.ZodObject) {
-        defaults[key] = generateDefaultValues(zodType);
-      } else if (zodType instanceof z.ZodBoolean) {
-        defaults[key] = false;
-      } else if (zodType instanceof z.ZodNumber) {
-        defaults[key] = 0;
-      } else if (zodType instanceof z.ZodString) {
-        defaults[key] = '';
-      }
-    });
+  if (context.mode === 'empty' || context.lazyDepth >= MAX_SAMPLE_LAZY_DEPTH) {
+    return minItems;
+  }
+
+  const low = Math.max(minItems, Math.min(1, maxItems ?? 1));
+  return randomInt(context.random, low, Math.max(low, Math.min(maxItems ?? Infinity, low + 2)));
+};
+
+// Zero, or the nearest bound when zero is out of range
+const getEmptyNumber = (zodType: AnyZodSchema): number => {
+  let value = 0;
+
+  for (const check of getChecks(zodType)) {
+    if (check.kind === 'min' && value < check.value) value = check.value;
+    if (check.kind === 'max' && value > check.value) value = check.value;
   }
 
-  return defaults;
+  return value;
 };
 
+const generateValue = (zodType: AnyZodSchema, context: GenerationContext): any => {
+  const sample = context.mode === 'sample';
+  const { random } = context;
+
+  switch (getSchemaKind(zodType)) {
+    case 'default':
+      return sample ? generateValue(getInnerSchema(zodType)!, context) : getDefaultValue(zodType);
+    case 'optional':
+      return sample && context.lazyDepth < MAX_SAMPLE_LAZY_DEPTH
+        ? generateValue(getInnerSchema(zodType)!, context)
+        : undefined;
+    case 'nullable':
+      return sample ? generateValue(getInnerSchema(zodType)!, context) : null;
+    case 'effects':
+      return generateValue(getInnerSchema(zodType)!, context);
+    case 'lazy': {
+      const inner = getInnerSchema(zodType)!;
+
+      // Lazy objects stay collapsed until the user adds them
+      if (!sample) {
+        return getSchemaKind(unwrapSchema(inner)) === 'object'
+          ? undefined
+          : generateValue(inner, context);
+      }
+
+      context.lazyDepth++;
+      const value = generateValue(inner, context);
+      context.lazyDepth--;
+      return value;
+    }
+    case 'object': {
+      const shape = getObjectShape(zodType);
+      const values: Record<string, any> = {};
+
+      Object.keys(shape).forEach(key => {
+        const value = generateValue(shape[key], context);
+
+        if (value !== undefined) {
+          values[key] = value;
+        }
+      });
+
+      return values;
+    }
+    case 'array':
+      return Array.from({ length: getItemCount(zodType, context) }, () =>
+        generateValue(getArrayElement(zodType), context)
+      );
+    case 'set': {
+      if (!sample) return [];
+
+      // Values must be unique; give up on extra items when the element has few values
+      const count = getItemCount(zodType, context);
+      const values = new Map<string, any>();
+      for (let attempt = 0; values.size < count && attempt < count * 10; attempt++) {
+        const value = generateValue(getValueType(zodType), context);
+        values.set(JSON.stringify(value), value);
+      }
+      return Array.from(values.values());
+    }
+    case 'record':
+    case 'map': {
+      if (!sample) return {};
+
+      const count = context.lazyDepth >= MAX_SAMPLE_LAZY_DEPTH ? 0 : randomInt(random, 1, 3);
+      const entries: Record<string, any> = {};
+      for (let index = 0; index < count; index++) {
+        const key = String(generateValue(getKeyType(zodType), context));
+        entries[key] = generateValue(getValueType(zodType), context);
+      }
+      return entries;
+    }
+    case 'tuple':
+      return getTupleItems(zodType).items.map(item => generateValue(item, context));
+    case 'union': {
+      const options = getUnionOptions(zodType);
+      return generateValue(sample ? randomItem(random, options) : options[0], context);
+    }
+    case 'discriminatedUnion': {
+      const variants = getDiscriminatedVariants(zodType);
+      const [value, variant] = sample ? randomItem(random, variants) : variants[0];
+      return { ...generateValue(variant, context), [getDiscriminator(zodType)]: value };
+    }
+    case 'enum':
+    case 'nativeEnum': {
+      const values = getEnumValues(zodType);
+      return sample ? randomItem(random, values) : values[0];
+    }
+    case 'literal':
+      return getEnumValues(zodType)[0];
+    case 'boolean':
+      return sample ? random() < 0.5 : false;
+    case 'number':
+      return sample ? sampleNumber(getChecks(zodType), random) : getEmptyNumber(zodType);
+    case 'bigint':
+      return sample ? sampleBigInt(getChecks(zodType), random) : BigInt(0);
+    case 'string':
+      return sample ? sampleString(getChecks(zodType), random) : '';
+    case 'date':
+      return sample ? sampleDate(getChecks(zodType), random) : undefined;
+    default:
+      return undefined;
+  }
+};
+
+/**
+ * Generate the initial value for a single schema, e.g. a newly added array item
+ *
+ * Values use the form-state representation: sets are arrays and maps are plain objects.
+ * In `empty` mode (the default) values have the right shape but no content: `''`,
+ * zero (within bounds), the first enum option or union member, `null` for nullable
+ * fields and the minimum number of array items. In `sample` mode they are example
+ * data that satisfies the schema's checks, the same for the same `seed`.
+ */
+export const generateDefaultValue = (
+  zodType: AnyZodSchema,
+  { mode = 'empty', seed }: DefaultValueOptions = {}
+): any => generateValue(zodType, { mode, random: createRandom(seed), lazyDepth: 0 });
+
+/**
+ * Generate default values from schema
+ *
+ * Accepts the same options as `generateDefaultValue`.
+ */
+export const generateDefaultValues = (
+  schema: AnyZodSchema,
+  options: DefaultValueOptions = {}
+): Record<string, any> =>
+  getSchemaKind(schema) === 'object' ? generateDefaultValue(schema, options) : {};
+
 /**
  * Validate if a value matches the expected Zod type
  */
-export const validateWithSchema = (schema: z.ZodTypeAny, data: any) => {
+export const validateWithSchema = (schema: AnyZodSchema, data: any) => {
   try {
-    const result = schema.safeParse(data);
+    const result = (schema as z.ZodTypeAny).safeParse(data);
     return {
       success: result.success,
       data: result.success ? result.data : undefined,
       errors: result.success
         ? []
-        : result.error.errors.map(err => ({
+        : getIssues(result.error).map(err => ({
             field: err.path.join('.'),
             message: err.message,
             code: err.code,
@@ -0,0 +1,115 @@
+import { z } from 'zod';
+import { getValueCodec } from './value-codecs';
+
+describe('Value Codecs', () => {
+  describe('numbers', () => {
+    const codec = getValueCodec(z.number().min(1), 'number');
+
+    it('should parse numeric input and format numbers', () => {
+      expect(codec.parse('42.5')).toBe(42.5);
+      expect(codec.parse(7)).toBe(7);
+      expect(codec.format(3)).toBe('3');
+      expect(codec.format(undefined)).toBe('');
+    });
+
+    it('should pass unparseable input through for the schema to reject', () => {
+      expect(codec.parse('abc')).toBe('abc');
+      expect(codec.parse('')).toBeUndefined();
+    });
+
+    it('should parse range inputs the same way', () => {
+      expect(getValueCodec(z.number(), 'range').parse('4')).toBe(4);
+    });
+  });
+
+  describe('empty input', () => {
+    it('should follow the outermost optional or nullable wrapper', () => {
+      expect(getValueCodec(z.string().optional(), 'text').parse('')).toBeUndefined();
+      expect(getValueCodec(z.string().nullable(), 'text').parse('')).toBeNull();
+      expect(getValueCodec(z.string().nullable().optional(), 'text').parse('')).toBeUndefined();
+      expect(getValueCodec(z.number().default(5), 'number').parse('')).toBeUndefined();
+      expect(getValueCodec(z.enum(['a', 'b']).nullable(), 'select').parse('')).toBeNull();
+    });
+
+    it('should keep empty strings for required strings', () => {
+      expect(getValueCodec(z.string().min(1), 'text').parse('')).toBe('');
+    });
+  });
+
+  describe('bigints', () => {
+    const codec = getValueCodec(z.bigint(), 'number');
+
+    it('should parse integer input as a bigint', () => {
+      expect(codec.parse('9007199254740993')).toBe(BigInt('9007199254740993'));
+      expect(codec.parse('1.5')).toBe('1.5');
+      expect(codec.format(BigInt(12))).toBe('12');
+    });
+  });
+
+  describe('dates', () => {
+    it('should convert date input values to and from Dates', () => {
+      const codec = getValueCodec(z.date(), 'date');
+
+      expect(codec.parse('2024-06-01')).toEqual(new Date('2024-06-01'));
+      expect(codec.format(new Date('2024-06-01'))).toBe('2024-06-01');
+    });
+
+    it('should convert datetime-local values in local time', () => {
+      const codec = getValueCodec(z.date(), 'datetime-local');
+
+      expect(codec.parse('2024-06-01T09:30')).toEqual(new Date(2024, 5, 1, 9, 30));
+      expect(codec.format(new Date(2024, 5, 1, 9, 30))).toBe('2024-06-01T09:30');
+    });
+
+    it('should convert datetime-local values to ISO strings for datetime strings', () => {
+      const schema = z.string().datetime({ precision: 0 });
+      const codec = getValueCodec(schema, 'datetime-local');
+      const parsed = codec.parse('2024-06-01T09:30');
+
+      expect(parsed).toBe(new Date(2024, 5, 1, 9, 30).toISOString().replace('.000', ''));
+      expect(schema.safeParse(parsed).success).toBe(true);
+      expect(codec.format(parsed)).toBe('2024-06-01T09:30');
+    });
+
+    it('should keep local datetime strings as entered', () => {
+      const codec = getValueCodec(z.string().datetime({ local: true }), 'datetime-local');
+
+      expect(codec.parse('2024-06-01T09:30')).toBe('2024-06-01T09:30');
+    });
+  });
+
+  describe('options', () => {
+    enum Priority {
+      Low = 1,
+      High = 2,
+    }
+
+    it('should read option strings back as numeric enum members', () => {
+      const codec = getValueCodec(z.nativeEnum(Priority), 'select');
+
+      expect(codec.parse('2')).toBe(Priority.High);
+      expect(codec.format(Priority.High)).toBe(2);
+      expect(getValueCodec(z.nativeEnum(Priority), 'radio').parse('1')).toBe(Priority.Low);
+      expect(getValueCodec(z.literal(3), 'radio').parse('3')).toBe(3);
+    });
+
+    it('should read option strings back as the members of a union of literals', () => {
+      const codec = getValueCodec(z.union([z.literal(1), z.literal(2)]), 'radio');
+
+      expect(codec.parse('2')).toBe(2);
+      expect(getValueCodec(z.union([z.literal(1), z.string()]), 'radio').parse('1')).toBe('1');
+    });
+
+    it('should pass strings that match no option through for the schema to reject', () => {
+      expect(getValueCodec(z.nativeEnum(Priority), 'select').parse('9')).toBe('9');
+      expect(getValueCodec(z.enum(['a', 'b']), 'select').parse('b')).toBe('b');
+    });
+  });
+
+  it('should pass values through for components that emit typed values', () => {
+    const codec = getValueCodec(z.number().optional(), 'stars');
+
+    expect(codec.parse(undefined)).toBeUndefined();
+    expect(codec.format(3)).toBe(3);
+  });
+});
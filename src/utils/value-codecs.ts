@@ -0,0 +1,190 @@
+import { AnyZodSchema, FieldType } from '../types';
+import { unwrapSchema } from './schema-parser';
+import {
+  getChecks,
+  getEnumValues,
+  getInnerSchema,
+  getSchemaKind,
+  getUnionOptions,
+  SchemaCheck,
+} from './zod-introspection';
+
+/**
+ * Conversions between input values and the values a field's schema expects
+ *
+ * Native inputs only emit strings: a codec parses them into numbers, bigints, dates and
+ * option values before they reach form state, and formats form state back into input values. Empty
+ * inputs become `undefined` for optional fields and `null` for nullable ones.
+ */
+
+export interface ValueCodec {
+  // Input value (or event value) to form state
+  parse: (input: any) => any;
+
+  // Form state to input value
+  format: (value: any) => any;
+}
+
+// Field types whose components emit raw input strings
+const INPUT_FIELD_TYPES: FieldType[] = [
+  'text',
+  'email',
+  'password',
+  'url',
+  'tel',
+  'number',
+  'range',
+  'textarea',
+  'select',
+  'radio',
+  'date',
+  'datetime-local',
+  'time',
+  'color',
+];
+
+const passThrough: ValueCodec = { parse: input => input, format: value => value };
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+// A date as a datetime-local input value, in local time
+const toLocalDateTime = (date: Date): string =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(
+    date.getHours()
+  )}:${pad(date.getMinutes())}${date.getSeconds() ? `:${pad(date.getSeconds())}` : ''}`;
+
+const isValidDate = (value: any): value is Date => value instanceof Date && !isNaN(value.getTime());
+
+// Unparseable input is passed through so the schema reports it
+const numberCodec: ValueCodec = {
+  parse: input =>
+    typeof input === 'string' && input.trim() !== '' && !isNaN(Number(input))
+      ? Number(input)
+      : input,
+  format: value => String(value),
+};
+
+const bigintCodec: ValueCodec = {
+  parse: input => {
+    try {
+      return typeof input === 'string' ? BigInt(input) : input;
+    } catch {
+      return input;
+    }
+  },
+  format: value => String(value),
+};
+
+// Date-only inputs are read as UTC midnight, matching how date bounds are displayed
+const dateCodec: ValueCodec = {
+  parse: input => (typeof input === 'string' ? new Date(input) : input),
+  format: value => (isValidDate(value) ? value.toISOString().slice(0, 10) : value),
+};
+
+// Date-time inputs are in local time
+const dateTimeCodec: ValueCodec = {
+  parse: input => (typeof input === 'string' ? new Date(input) : input),
+  format: value => (isValidDate(value) ? toLocalDateTime(value) : value),
+};
+
+// Selects and radios post option values as strings (e.g. '2' for a numeric enum member), so
+// read them back as the value they stand for; form state keeps the typed value
+const createOptionCodec = (values: any[]): ValueCodec => ({
+  parse: input => {
+    const match = values.find(value => String(value) === String(input));
+    return match === undefined ? input : match;
+  },
+  format: value => value,
+});
+
+// ISO date-time strings: local input values become UTC unless the schema allows local times
+const createIsoDateTimeCodec = (check: SchemaCheck): ValueCodec => {
+  if (check.local) return passThrough;
+
+  return {
+    parse: input => {
+      const date = new Date(input);
+      if (typeof input !== 'string' || !isValidDate(date)) return input;
+
+      const iso = date.toISOString();
+      if (check.precision === undefined || check.precision === null) return iso;
+
+      // toISOString always has milliseconds; match the schema's fractional digits
+      const fraction = iso.slice(20, 20 + check.precision);
+      return `${iso.slice(0, 19)}${fraction ? `.${fraction}` : ''}Z`;
+    },
+    format: value => {
+      const date = new Date(value);
+      return typeof value === 'string' && isValidDate(date) ? toLocalDateTime(date) : value;
+    },
+  };
+};
+
+// The codec for the schema's own value type, given the input it is edited with
+const getTypeCodec = (zodType: AnyZodSchema, fieldType: FieldType): ValueCodec => {
+  const inner = unwrapSchema(zodType);
+
+  switch (getSchemaKind(inner)) {
+    case 'number':
+      return numberCodec;
+    case 'bigint':
+      return bigintCodec;
+    case 'date':
+      return fieldType === 'datetime-local' ? dateTimeCodec : dateCodec;
+    case 'enum':
+    case 'nativeEnum':
+    case 'literal':
+      return createOptionCodec(getEnumValues(inner));
+    case 'union': {
+      // Unions of literals are rendered as options too
+      const members = getUnionOptions(inner).map(unwrapSchema);
+      return members.every(member => getSchemaKind(member) === 'literal')
+        ? createOptionCodec(members.flatMap(getEnumValues))
+        : passThrough;
+    }
+    case 'string': {
+      const dateTimeCheck = getChecks(inner).find(check => check.kind === 'datetime');
+      return fieldType === 'datetime-local' && dateTimeCheck
+        ? createIsoDateTimeCodec(dateTimeCheck)
+        : passThrough;
+    }
+    default:
+      return passThrough;
+  }
+};
+
+// The value an empty input stands for: the outermost optional, nullable or default wrapper decides
+const getEmptyValue = (zodType: AnyZodSchema): any => {
+  switch (getSchemaKind(zodType)) {
+    case 'nullable':
+      return null;
+    case 'optional':
+    case 'default':
+      return undefined;
+    default: {
+      const inner = getInnerSchema(zodType);
+      if (inner) return getEmptyValue(inner);
+
+      // Required strings keep '' so their own checks (e.g. min(1)) report the error
+      return getSchemaKind(zodType) === 'string' ? '' : undefined;
+    }
+  }
+};
+
+/**
+ * The codec for a field edited with the given field type
+ *
+ * Field types whose components emit typed values (e.g. checkboxes and star ratings)
+ * pass values through unchanged.
+ */
+export const getValueCodec = (zodType: AnyZodSchema, fieldType: FieldType): ValueCodec => {
+  if (!INPUT_FIELD_TYPES.includes(fieldType)) return passThrough;
+
+  const codec = getTypeCodec(zodType, fieldType);
+  const emptyValue = getEmptyValue(zodType);
+
+  return {
+    parse: input => (input === '' ? emptyValue : codec.parse(input)),
+    format: value => (value === undefined || value === null ? '' : codec.format(value)),
+  };
+};
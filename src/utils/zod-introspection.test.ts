@@ -0,0 +1,128 @@
+import { z } from 'zod';
+import { z as z4 } from 'zod/v4';
+import {
+  getSchemaKind,
+  getChecks,
+  getDiscriminatedVariants,
+  isZod4Schema,
+} from './zod-introspection';
+import { parseSchema, generateDefaultValues, validateWithSchema } from './schema-parser';
+
+// Replace schema instances with their kind so analyses of both versions can be compared
+const summarize = (value: any): any => {
+  if (value?._def || value?._zod) return getSchemaKind(value);
+  if (Array.isArray(value)) return value.map(summarize);
+  if (value && typeof value === 'object' && !(value instanceof RegExp)) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, summarize(item)]));
+  }
+  return value;
+};
+
+const buildSchema = (zod: any) =>
+  zod.object({
+    name: zod.string().min(2).max(50).describe('Your full name'),
+    email: zod.string().email(),
+    age: zod.number().int().min(18).optional(),
+    role: zod.enum(['admin', 'user']).default('user'),
+    active: zod.boolean(),
+    tags: zod.array(zod.string()).min(1).max(3),
+    address: zod.object({
+      city: zod.string(),
+      zip: zod.string().regex(/^\d{5}$/),
+    }),
+    contact: zod.discriminatedUnion('method', [
+      zod.object({ method: zod.literal('email'), address: zod.string() }),
+      zod.object({ method: zod.literal('phone'), number: zod.string() }),
+    ]),
+    scores: zod.record(zod.string(), zod.number()),
+    labels: zod.set(zod.string()),
+    point: zod.tuple([zod.number(), zod.number()]),
+  });
+
+describe('Zod Introspection', () => {
+  describe('getSchemaKind', () => {
+    it('should report the same kinds for both versions', () => {
+      const pairs: Array<[any, any]> = [
+        [z.string(), z4.string()],
+        [z.number().optional(), z4.number().optional()],
+        [z.string().default(''), z4.string().default('')],
+        [z.string().transform(value => value.trim()), z4.string().transform((v: string) => v)],
+        [z.lazy(() => z.string()), z4.lazy(() => z4.string())],
+        [z.map(z.string(), z.number()), z4.map(z4.string(), z4.number())],
+      ];
+
+      pairs.forEach(([v3, v4]) => {
+        expect(isZod4Schema(v3)).toBe(false);
+        expect(isZod4Schema(v4)).toBe(true);
+        expect(getSchemaKind(v4)).toBe(getSchemaKind(v3));
+      });
+    });
+
+    it('should detect discriminated unions', () => {
+      const schema = z4.discriminatedUnion('kind', [
+        z4.object({ kind: z4.literal('a') }),
+        z4.object({ kind: z4.enum(['b', 'c']) }),
+      ]);
+
+      expect(getSchemaKind(schema)).toBe('discriminatedUnion');
+      expect(getDiscriminatedVariants(schema).map(([value]) => value)).toEqual(['a', 'b', 'c']);
+    });
+  });
+
+  describe('getChecks', () => {
+    it('should normalize Zod 4 checks to the Zod 3 shape', () => {
+      expect(getChecks(z4.string().min(2).max(5))).toEqual(getChecks(z.string().min(2).max(5)));
+      expect(getChecks(z4.email())).toEqual([{ kind: 'email' }]);
+      expect(getChecks(z4.number().int())).toEqual([{ kind: 'int' }]);
+      expect(getChecks(z4.iso.time({ precision: 0 }))).toEqual([{ kind: 'time', precision: 0 }]);
+      expect(getChecks(z4.iso.datetime({ offset: true }))).toMatchObject([
+        { kind: 'datetime', offset: true },
+      ]);
+      expect(getChecks(z4.array(z4.string()).min(1))).toEqual(
+        getChecks(z.array(z.string()).min(1))
+      );
+    });
+  });
+
+  describe('parseSchema', () => {
+    it('should produce the same analysis for Zod 3 and Zod 4 schemas', () => {
+      expect(summarize(parseSchema(buildSchema(z4)))).toEqual(
+        summarize(parseSchema(buildSchema(z)))
+      );
+    });
+
+    it('should generate the same default values', () => {
+      expect(generateDefaultValues(buildSchema(z4))).toEqual(generateDefaultValues(buildSchema(z)));
+    });
+
+    it('should read .meta() as field hints', () => {
+      const fields = parseSchema(
+        z4.object({
+          rating: z4.number().min(1).max(5).meta({ title: 'Rating', type: 'stars', order: 1 }),
+        })
+      );
+
+      expect(fields.rating.type).toBe('stars');
+      expect(fields.rating.config).toMatchObject({ label: 'Rating', order: 1, min: 1, max: 5 });
+    });
+
+    it('should read hints from a registry', () => {
+      const registry = z4.registry();
+      const nickname = z4.string();
+      registry.add(nickname, { placeholder: 'What should we call you?' });
+
+      const fields = parseSchema(z4.object({ nickname }), '', { registry });
+
+      expect(fields.nickname.config.placeholder).toBe('What should we call you?');
+    });
+  });
+
+  describe('validateWithSchema', () => {
+    it('should report Zod 4 issues', () => {
+      const result = validateWithSchema(z4.object({ name: z4.string().min(2) }), { name: 'A' });
+
+      expect(result.success).toBe(false);
+      expect(result.errors[0].path).toEqual(['name']);
+    });
+  });
+});
@@ -0,0 +1,427 @@
+import { z } from 'zod';
+import { AnyZodSchema } from '../types';
+
+/**
+ * Version-independent access to Zod schema internals
+ *
+ * Zod 3 keeps a schema's definition in `_def` (with a `typeName` and `checks`), while
+ * Zod 4 keeps it in `_zod.def` (with a `type` and check objects of its own). These
+ * helpers read both, so the parser can describe either version the same way.
+ *
+ * Helpers accept either version; schemas they return are typed as `z.ZodTypeAny` for
+ * convenience, though they may be Zod 4 schemas at runtime.
+ */
+
+export type SchemaKind =
+  | 'string'
+  | 'number'
+  | 'bigint'
+  | 'boolean'
+  | 'date'
+  | 'enum'
+  | 'nativeEnum'
+  | 'literal'
+  | 'array'
+  | 'object'
+  | 'record'
+  | 'tuple'
+  | 'set'
+  | 'map'
+  | 'union'
+  | 'discriminatedUnion'
+  | 'optional'
+  | 'nullable'
+  | 'default'
+  | 'effects'
+  | 'lazy'
+  | 'file'
+  | 'unknown';
+
+/**
+ * A check normalized to Zod 3's shape, e.g. `{ kind: 'min', value: 2 }`
+ */
+export interface SchemaCheck {
+  kind: string;
+  value?: any;
+  inclusive?: boolean;
+  regex?: RegExp;
+  version?: string;
+  precision?: number | null;
+  offset?: boolean;
+  local?: boolean;
+  // Custom error message; Zod 4 error maps aren't read
+  message?: string;
+}
+
+const V3_KINDS: Record<string, SchemaKind> = {
+  ZodString: 'string',
+  ZodNumber: 'number',
+  ZodBigInt: 'bigint',
+  ZodBoolean: 'boolean',
+  ZodDate: 'date',
+  ZodEnum: 'enum',
+  ZodNativeEnum: 'nativeEnum',
+  ZodLiteral: 'literal',
+  ZodArray: 'array',
+  ZodObject: 'object',
+  ZodRecord: 'record',
+  ZodTuple: 'tuple',
+  ZodSet: 'set',
+  ZodMap: 'map',
+  ZodUnion: 'union',
+  ZodDiscriminatedUnion: 'discriminatedUnion',
+  ZodOptional: 'optional',
+  ZodNullable: 'nullable',
+  ZodDefault: 'default',
+  ZodEffects: 'effects',
+  ZodLazy: 'lazy',
+};
+
+const V4_KINDS: Record<string, SchemaKind> = {
+  string: 'string',
+  number: 'number',
+  bigint: 'bigint',
+  boolean: 'boolean',
+  date: 'date',
+  enum: 'enum',
+  literal: 'literal',
+  array: 'array',
+  object: 'object',
+  record: 'record',
+  tuple: 'tuple',
+  set: 'set',
+  map: 'map',
+  union: 'union',
+  optional: 'optional',
+  nullable: 'nullable',
+  default: 'default',
+  prefault: 'default',
+  pipe: 'effects',
+  catch: 'effects',
+  readonly: 'effects',
+  nonoptional: 'effects',
+  lazy: 'lazy',
+  file: 'file',
+};
+
+const WRAPPER_KINDS: SchemaKind[] = ['optional', 'nullable', 'default', 'effects', 'lazy'];
+
+/**
+ * Whether a schema was created with Zod 4
+ */
+export const isZod4Schema = (schema: any): boolean => !!schema?._zod?.def;
+
+// The definition object of either version
+const getDef = (schema: any): any => (isZod4Schema(schema) ? schema._zod.def : schema._def);
+
+/**
+ * Whether a Zod 3 schema was declared with `z.instanceof(File)`
+ *
+ * Zod 3 builds it as a refinement of `z.any()` that keeps no reference to the class, so
+ * the refinement is recognized by accepting a file and rejecting other objects.
+ */
+const isFileRefinement = (schema: any): boolean => {
+  const def = schema._def;
+  if (def.effect?.type !== 'refinement' || def.schema?._def?.typeName !== 'ZodAny') {
+    return false;
+  }
+  if (typeof File === 'undefined') return false;
+
+  try {
+    return schema.safeParse(new File([], '')).success && !schema.safeParse({}).success;
+  } catch {
+    // Refinements that throw on other values, or are async, aren't file checks
+    return false;
+  }
+};
+
+/**
+ * The kind of a schema, independent of the Zod version
+ */
+export const getSchemaKind = (schema: AnyZodSchema): SchemaKind => {
+  const def = getDef(schema);
+  if (!def) return 'unknown';
+
+  if (isZod4Schema(schema)) {
+    if (def.type === 'union' && def.discriminator !== undefined) return 'discriminatedUnion';
+    return V4_KINDS[def.type] || 'unknown';
+  }
+
+  if (def.typeName === 'ZodEffects' && isFileRefinement(schema)) return 'file';
+
+  return V3_KINDS[def.typeName] || 'unknown';
+};
+
+/**
+ * The Zod 3 style type name of a schema, e.g. `ZodString`
+ */
+export const getTypeName = (schema: AnyZodSchema): string => {
+  const def = getDef(schema);
+
+  if (isZod4Schema(schema)) {
+    if (getSchemaKind(schema) === 'discriminatedUnion') return 'ZodDiscriminatedUnion';
+    return `Zod${def.type.charAt(0).toUpperCase()}${def.type.slice(1)}`;
+  }
+
+  return def?.typeName;
+};
+
+/**
+ * Whether a schema only wraps another one (optional, nullable, default, effects, lazy)
+ */
+export const isWrapperSchema = (schema: AnyZodSchema): boolean =>
+  WRAPPER_KINDS.includes(getSchemaKind(schema));
+
+/**
+ * The schema a wrapper delegates to, or undefined for non-wrappers
+ */
+export const getInnerSchema = (schema: AnyZodSchema): z.ZodTypeAny | undefined => {
+  const def = getDef(schema);
+  const kind = getSchemaKind(schema);
+
+  if (kind === 'lazy') {
+    return def.getter();
+  }
+
+  if (isZod4Schema(schema)) {
+    // Transforms run after `in`, preprocessors (a transform piped into a schema) before `out`
+    if (def.type === 'pipe') {
+      return def.in._zod.def.type === 'transform' ? def.out : def.in;
+    }
+    return WRAPPER_KINDS.includes(kind) ? def.innerType : undefined;
+  }
+
+  switch (kind) {
+    case 'optional':
+    case 'nullable':
+    case 'default':
+      return def.innerType;
+    case 'effects':
+      return def.schema;
+    default:
+      return undefined;
+  }
+};
+
+/**
+ * The default value of a `.default()` schema
+ */
+export const getDefaultValue = (schema: AnyZodSchema): any => {
+  const def = getDef(schema);
+  return isZod4Schema(schema) ? def.defaultValue : def.defaultValue();
+};
+
+/**
+ * The property schemas of an object schema
+ */
+export const getObjectShape = (schema: AnyZodSchema): Record<string, z.ZodTypeAny> => {
+  const def = getDef(schema);
+  return isZod4Schema(schema) ? def.shape : def.shape();
+};
+
+/**
+ * The element schema of an array schema
+ */
+export const getArrayElement = (schema: AnyZodSchema): z.ZodTypeAny => {
+  const def = getDef(schema);
+  return isZod4Schema(schema) ? def.element : def.type;
+};
+
+/**
+ * The positional item schemas and rest schema of a tuple schema
+ */
+export const getTupleItems = (
+  schema: AnyZodSchema
+): { items: z.ZodTypeAny[]; rest?: z.ZodTypeAny } => {
+  const def = getDef(schema);
+  return { items: def.items, rest: def.rest ?? undefined };
+};
+
+/**
+ * The key schema of a record or map schema
+ */
+export const getKeyType = (schema: AnyZodSchema): z.ZodTypeAny => getDef(schema).keyType;
+
+/**
+ * The value schema of a record, map or set schema
+ */
+export const getValueType = (schema: AnyZodSchema): z.ZodTypeAny => getDef(schema).valueType;
+
+/**
+ * The member schemas of a union or discriminated union schema
+ */
+export const getUnionOptions = (schema: AnyZodSchema): z.ZodTypeAny[] => getDef(schema).options;
+
+/**
+ * The discriminator key of a discriminated union schema
+ */
+export const getDiscriminator = (schema: AnyZodSchema): string => getDef(schema).discriminator;
+
+/**
+ * The values accepted by a literal, enum or native enum schema
+ */
+export const getEnumValues = (schema: AnyZodSchema): any[] => {
+  const def = getDef(schema);
+
+  switch (getSchemaKind(schema)) {
+    case 'literal':
+      return isZod4Schema(schema) ? def.values : [def.value];
+    case 'enum':
+      return isZod4Schema(schema) ? Object.values(def.entries) : def.values;
+    case 'nativeEnum':
+      // Numeric enums also map each value back to its name; leave those names out
+      return Object.keys(def.values)
+        .filter(key => typeof def.values[def.values[key]] !== 'number')
+        .map(key => def.values[key]);
+    default:
+      return [];
+  }
+};
+
+/**
+ * The variants of a discriminated union as `[discriminator value, object schema]` pairs
+ */
+export const getDiscriminatedVariants = (schema: AnyZodSchema): Array<[any, z.ZodTypeAny]> => {
+  if (!isZod4Schema(schema)) {
+    return Array.from(getDef(schema).optionsMap as Map<any, z.ZodTypeAny>);
+  }
+
+  const discriminator = getDiscriminator(schema);
+
+  return getUnionOptions(schema).flatMap(option =>
+    getEnumValues(unwrapAll(getObjectShape(option)[discriminator])).map(
+      (value): [any, z.ZodTypeAny] => [value, option]
+    )
+  );
+};
+
+/**
+ * The object schema of the discriminated union variant matching a discriminator value
+ */
+export const getDiscriminatedVariant = (
+  schema: AnyZodSchema,
+  value: any
+): z.ZodTypeAny | undefined =>
+  getDiscriminatedVariants(schema).find(([variantValue]) => variantValue === value)?.[1];
+
+// Strip every wrapper; schema-parser's unwrapSchema builds on the same helpers
+const unwrapAll = (schema: z.ZodTypeAny): z.ZodTypeAny => {
+  const inner = getInnerSchema(schema);
+  return inner ? unwrapAll(inner) : schema;
+};
+
+const V4_FORMAT_KINDS: Record<string, string> = {
+  starts_with: 'startsWith',
+  ends_with: 'endsWith',
+  ipv4: 'ip',
+  ipv6: 'ip',
+};
+
+// Normalize a single Zod 4 check definition to Zod 3's shape
+const normalizeV4Check = (check: any): SchemaCheck | undefined => {
+  const toValue = (value: any) => (value instanceof Date ? value.getTime() : value);
+
+  switch (check.check) {
+    case 'min_length':
+    case 'min_size':
+      return { kind: 'min', value: check.minimum };
+    case 'max_length':
+    case 'max_size':
+      return { kind: 'max', value: check.maximum };
+    case 'length_equals':
+    case 'size_equals':
+      return { kind: 'length', value: check.length ?? check.size };
+    case 'greater_than':
+      return { kind: 'min', value: toValue(check.value), inclusive: check.inclusive };
+    case 'less_than':
+      return { kind: 'max', value: toValue(check.value), inclusive: check.inclusive };
+    case 'multiple_of':
+      return { kind: 'multipleOf', value: check.value };
+    case 'number_format':
+      return /int/.test(check.format) ? { kind: 'int' } : undefined;
+    case 'string_format':
+      switch (check.format) {
+        case 'regex':
+          return { kind: 'regex', regex: check.pattern };
+        case 'starts_with':
+          return { kind: 'startsWith', value: check.prefix };
+        case 'ends_with':
+          return { kind: 'endsWith', value: check.suffix };
+        case 'includes':
+          return { kind: 'includes', value: check.includes };
+        case 'ipv4':
+        case 'ipv6':
+          return { kind: 'ip', version: check.format.slice(2) };
+        case 'datetime':
+          return {
+            kind: 'datetime',
+            precision: check.precision,
+            offset: check.offset,
+            local: check.local,
+          };
+        case 'time':
+          return { kind: 'time', precision: check.precision };
+        default:
+          return { kind: V4_FORMAT_KINDS[check.format] || check.format };
+      }
+    default:
+      return undefined;
+  }
+};
+
+/**
+ * The checks of a schema in Zod 3's shape
+ *
+ * Array and set size limits are included as `min`/`max`/`length` checks.
+ */
+export const getChecks = (schema: AnyZodSchema): SchemaCheck[] => {
+  const def = getDef(schema);
+  if (!def) return [];
+
+  if (isZod4Schema(schema)) {
+    // Format schemas such as z.email() carry their own check on the definition
+    const checks = def.check ? [def, ...(def.checks || [])] : def.checks || [];
+
+    return checks
+      .map((check: any) => normalizeV4Check(check._zod?.def ?? check))
+      .filter((check: SchemaCheck | undefined): check is SchemaCheck => !!check);
+  }
+
+  switch (getSchemaKind(schema)) {
+    case 'array':
+      return [
+        def.minLength && { kind: 'min', ...def.minLength },
+        def.maxLength && { kind: 'max', ...def.maxLength },
+        def.exactLength && { kind: 'length', ...def.exactLength },
+      ].filter(Boolean);
+    case 'set':
+      return [
+        def.minSize && { kind: 'min', ...def.minSize },
+        def.maxSize && { kind: 'max', ...def.maxSize },
+      ].filter(Boolean);
+    default:
+      return def.checks || [];
+  }
+};
+
+/**
+ * The description of a schema
+ */
+export const getDescription = (schema: AnyZodSchema): string | undefined =>
+  (schema as z.ZodTypeAny).description;
+
+/**
+ * Metadata registered for a Zod 4 schema with `.meta()` (the global registry)
+ */
+export const getSchemaMeta = (schema: AnyZodSchema): Record<string, any> | undefined =>
+  isZod4Schema(schema) && typeof (schema as any).meta === 'function'
+    ? (schema as any).meta()
+    : undefined;
+
+/**
+ * The issues of a failed parse, e.g. `safeParse(...).error`
+ */
+export const getIssues = (
+  error: any
+): Array<{ path: Array<string | number>; message: string; code: string }> =>
+  error?.issues ?? error?.errors ?? [];